@@ -0,0 +1,83 @@
+/*
+ * Copyright (c) 2020 Trond Snekvik
+ *
+ * SPDX-License-Identifier: MIT
+ */
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { existsSync, readFileSync } from 'fs';
+
+/**
+ * Binding file, for finding the location of its keys and entries.
+ *
+ * The YAML parser doesn't keep track of where the values came from, so we search through the text instead.
+ * The text is only read when there's something to report.
+ */
+export class BindingFile {
+    readonly uri: vscode.Uri;
+    private _lines?: string[];
+
+    constructor(file: string) {
+        this.uri = vscode.Uri.file(file);
+    }
+
+    private get lines() {
+        if (!this._lines) {
+            this._lines = existsSync(this.uri.fsPath) ? readFileSync(this.uri.fsPath, 'utf-8').split(/\r?\n/) : [];
+        }
+
+        return this._lines;
+    }
+
+    /* Text of the line, with everything before the column blanked out so match positions stay the same. */
+    private text(line: number, col: number) {
+        return ' '.repeat(col) + this.lines[line].slice(col);
+    }
+
+    /**
+     * Location of the second group in the first line that matches the pattern.
+     * Falls back to the first line of the file.
+     *
+     * @param sections Only look after the first match of each of these patterns, in order.
+     * The search continues on the same line, to cover flow collections like "include: [base.yaml]".
+     */
+    find(pattern: RegExp, ...sections: RegExp[]): vscode.Location {
+        const start = sections.reduce((start, section) => {
+            for (let i = start.line; i < this.lines.length; i++) {
+                const match = this.text(i, i === start.line ? start.col : 0).match(section);
+                if (match) {
+                    return { line: i, col: match.index + match[0].length };
+                }
+            }
+
+            return start;
+        }, { line: 0, col: 0 });
+
+        for (let i = start.line; i < this.lines.length; i++) {
+            const match = this.text(i, i === start.line ? start.col : 0).match(pattern);
+            if (match) {
+                const col = match[1].length;
+                return new vscode.Location(this.uri, new vscode.Range(i, col, i, col + match[2].length));
+            }
+        }
+
+        return new vscode.Location(this.uri, new vscode.Range(0, 0, 0, this.lines[0]?.length ?? 0));
+    }
+}
+
+const files: {[file: string]: BindingFile} = {};
+
+/** Binding file with the given file name. The files are shared, so each file is only read once. */
+export function bindingFile(file: string) {
+    file = path.resolve(file);
+    if (!(file in files)) {
+        files[file] = new BindingFile(file);
+    }
+
+    return files[file];
+}
+
+/** Forget the text of a binding file that changed on disk. */
+export function invalidateBindingFile(file: string) {
+    delete files[path.resolve(file)];
+}
@@ -0,0 +1,127 @@
+/*
+ * Copyright (c) 2020 Trond Snekvik
+ *
+ * SPDX-License-Identifier: MIT
+ */
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { NodeType, PropertyType, TypeLoader } from './types';
+import { DiagnosticsSet } from './diags';
+import { countText } from './util';
+import { bindingFile } from './bindingFile';
+
+function escape(text: string) {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/* Pattern for a key in a mapping, like "name:". The name is in the second group. */
+export function keyPattern(name: string) {
+    return new RegExp(`^(\\s*['"]?)(${escape(name)})['"]?\\s*:`);
+}
+
+/* Pattern for a list entry, either in a block list or a flow list. The optional .yaml extension is included in the match. */
+export function entryPattern(name: string) {
+    return new RegExp(`^(.*?[\\s'"[,-])(${escape(name)}(?:\\.ya?ml)?)(?=$|[\\s'"\\],])`);
+}
+
+/** Location of the property's declaration in the given binding, which may be a child binding. */
+export function propertyLocation(type: NodeType, name: string) {
+    if (type?.filename) {
+        const sections = type.isChild ? [/^\s*child-binding\s*:/, /^\s*properties\s*:/] : [/^properties\s*:/];
+        return bindingFile(type.filename).find(keyPattern(name), ...sections);
+    }
+}
+
+function typeString(prop: PropertyType) {
+    return Array.isArray(prop.type) ? prop.type.join(' or ') : prop.type;
+}
+
+function lintIncludes(type: NodeType, loader: TypeLoader, diags: DiagnosticsSet) {
+    const file = bindingFile(type.filename);
+    type.includeSpecs.forEach(spec => {
+        const included = loader.get(spec.name);
+        if (!included.length) {
+            diags.pushLoc(file.find(entryPattern(spec.name), /^include\s*:/), `Unknown binding ${spec.name}`, vscode.DiagnosticSeverity.Error);
+            return;
+        }
+
+        const includedFile = bindingFile(included[0].filename ?? type.filename);
+        const lists = { 'property-allowlist': spec.allow, 'property-blocklist': spec.block };
+        Object.entries(lists).filter(([, names]) => names).forEach(([list, names]) => {
+            names.filter(name => !included.some(t => t.property(name))).forEach(name => {
+                // The list may be in a flow mapping, like "include: [{ name: base.yaml, property-allowlist: [a] }]":
+                const loc = file.find(entryPattern(name), /^include\s*:/, entryPattern(spec.name), new RegExp(`(?:^|[\\s{,])${list}\\s*:`));
+                const diag = diags.pushLoc(loc, `${spec.name} has no property ${name}`);
+                diag.relatedInformation = [new vscode.DiagnosticRelatedInformation(includedFile.find(/^(\s*)(properties)\s*:/), `Properties of ${spec.name}`)];
+            });
+        });
+
+        // Redefining a property is fine, as long as its type stays the same:
+        type.ownProperties
+            .filter(prop => prop?.type && (!spec.allow || spec.allow.includes(prop.name)) && !spec.block?.includes(prop.name))
+            .forEach(prop => {
+                const base = included.map(t => t.property(prop.name)).find(base => base?.type);
+                if (base && typeString(base) !== typeString(prop)) {
+                    const diag = diags.pushLoc(file.find(keyPattern(prop.name), /^properties\s*:/), `Type ${typeString(prop)} is incompatible with the ${typeString(base)} type of ${prop.name} in ${spec.name}`, vscode.DiagnosticSeverity.Error);
+                    const loc = propertyLocation(base.node, base.name);
+                    if (loc) {
+                        diag.relatedInformation = [new vscode.DiagnosticRelatedInformation(loc, `${prop.name} declared here`)];
+                    }
+                }
+            });
+    });
+}
+
+function lintCells(type: NodeType, loader: TypeLoader, diags: DiagnosticsSet) {
+    const file = bindingFile(type.filename);
+    Object.entries(type.ownCells).forEach(([space, names]) => {
+        const count = type.property(`#${space}-cells`);
+        const loc = file.find(keyPattern(`${space}-cells`));
+        if (!count) {
+            // The property usually comes from an included controller binding, which we can't check if it's missing:
+            if (type.includeSpecs.every(spec => loader.get(spec.name).length)) {
+                diags.pushLoc(loc, `No #${space}-cells property for the ${space}-cells`);
+            }
+            return;
+        }
+
+        if (count.const !== undefined && count.const !== names?.length) {
+            const diag = diags.pushLoc(loc, `${countText(names?.length ?? 0, 'cell name')}, but #${space}-cells is always ${count.const}`);
+            const countLoc = propertyLocation(count.node, count.name);
+            if (countLoc) {
+                diag.relatedInformation = [new vscode.DiagnosticRelatedInformation(countLoc, `#${space}-cells declared here`)];
+            }
+        }
+    });
+}
+
+function lintCompatible(type: NodeType, bindings: NodeType[], diags: DiagnosticsSet) {
+    const name = path.basename(type.filename, '.yaml');
+    if (!type.hasCompatible && !bindings.some(other => other.dependsOn(name))) {
+        diags.pushLoc(bindingFile(type.filename).find(/^()(\S.*)$/), `Missing compatible. Bindings without a compatible only have an effect when other bindings include them.`);
+    }
+}
+
+/**
+ * Check the bindings in the workspace for problems the YAML schema can't catch, like includes of unknown bindings.
+ *
+ * The problems go in the loader's diagnostics collection, next to the errors from loading the bindings.
+ * By default, bindings outside the workspace aren't checked, as their problems are out of the user's hands.
+ *
+ * @param inScope Whether the binding file should be checked.
+ */
+export function lintBindings(loader: TypeLoader, inScope = (file: string) => !!vscode.workspace.getWorkspaceFolder(vscode.Uri.file(file))) {
+    const diags = new DiagnosticsSet();
+    const bindings = Object.values(loader.types).flat().filter(type => type.filename);
+    const linted = bindings.filter(type => inScope(type.filename));
+    linted.forEach(type => {
+        lintIncludes(type, loader, diags);
+        lintCells(type, loader, diags);
+        lintCompatible(type, bindings, diags);
+    });
+
+    linted.forEach(type => {
+        const uri = vscode.Uri.file(type.filename);
+        loader.diags.set(uri, diags.diags(uri) ?? []);
+    });
+}
@@ -0,0 +1,224 @@
+/*
+ * Copyright (c) 2020 Trond Snekvik
+ *
+ * SPDX-License-Identifier: MIT
+ */
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { IncludeTree, NodeType, PropertyType, TypeLoader } from './types';
+import { keyPattern, propertyLocation } from './bindingLint';
+import { bindingFile } from './bindingFile';
+
+/* Keys of the mappings that contain the line, from the top level down, including the line's own key. */
+export function keyPath(document: vscode.TextDocument, line: number): string[] {
+    const keys = new Array<string>();
+    let indent = Infinity;
+    for (let i = line; i >= 0 && indent > 0; i--) {
+        const text = document.lineAt(i).text;
+        if (!text.trim() || text.trim().startsWith('#')) {
+            continue;
+        }
+
+        const lineIndent = text.match(/^\s*/)[0].length;
+        const key = text.match(/^(\s*(?:-\s+)?)(['"]?)([^'"#:\s][^'"#:]*?)\2\s*:(?:\s|$)/);
+        if (key && key[1].length < indent) {
+            keys.unshift(key[3]);
+        }
+
+        indent = Math.min(indent, lineIndent);
+    }
+
+    return keys;
+}
+
+/* Link to the line in the file, for hover text. */
+function link(loc: vscode.Location) {
+    return `[${path.basename(loc.uri.fsPath)}](${loc.uri.with({ fragment: `L${loc.range.start.line + 1}` })})`;
+}
+
+/* Links to the property's declarations, from the first included binding to the given type. */
+function sourceLinks(type: NodeType, name: string) {
+    return type.propertySources(name).map(source => propertyLocation(source, name)).filter(loc => loc).map(link);
+}
+
+/** Hover text for the bindings the property is declared in, if any. */
+export function propertySourcesText(type: NodeType, name: string) {
+    const links = sourceLinks(type, name);
+    if (links.length) {
+        return `Declared in ${links.join(' → ')}`;
+    }
+}
+
+/* Nested markdown list entries for the binding and its includes, with the property lists each include applies. */
+function includeTreeLines(tree: IncludeTree, depth = 0): string[] {
+    let entry: string;
+    if (tree.type?.filename) {
+        const file = bindingFile(tree.type.filename);
+        entry = link(tree.type.isChild ? file.find(keyPattern('child-binding')) : new vscode.Location(file.uri, new vscode.Position(0, 0)));
+    } else {
+        entry = `\`${tree.name}\` *(not found)*`;
+    }
+
+    const lists = [['allowlist', tree.include?.allow], ['blocklist', tree.include?.block]]
+        .filter(([, names]) => names)
+        .map(([list, names]: [string, string[]]) => `${list}: ${names.map(name => `\`${name}\``).join(', ')}`);
+    if (lists.length) {
+        entry += ` (${lists.join('; ')})`;
+    }
+
+    return [`${'  '.repeat(depth)}- ${entry}`, ...tree.includes.flatMap(child => includeTreeLines(child, depth + 1))];
+}
+
+/**
+ * Hover text for the inheritance chain of a binding: The bindings it includes, and where each of its properties comes from.
+ */
+export function bindingChainText(type: NodeType) {
+    const text = new vscode.MarkdownString(type.isChild ? '**Child binding:**\n\n' : `**Binding:** \`${type.name}\`\n\n`);
+    text.appendMarkdown(includeTreeLines(type.includeTree()).join('\n'));
+
+    const props = type.properties
+        .map(prop => ({ name: prop.name, links: sourceLinks(type, prop.name) }))
+        .filter(prop => prop.links.length)
+        .map(prop => `- \`${prop.name}\`: ${prop.links.join(' → ')}`);
+    if (props.length) {
+        text.appendMarkdown('\n\n**Properties:**\n\n' + props.join('\n'));
+    }
+
+    return text;
+}
+
+/**
+ * Go to definition and hover for the includes and properties in binding files.
+ */
+export class BindingProvider implements vscode.DefinitionProvider, vscode.HoverProvider {
+    /**
+     * @param loaders Loaders for all the bindings in use.
+     */
+    constructor(private loaders: () => TypeLoader[]) {}
+
+    /* Binding in the document, along with the loader it was loaded by. */
+    private binding(document: vscode.TextDocument) {
+        for (const loader of this.loaders()) {
+            const type = Object.values(loader.types).flat().find(type => type.filename && path.resolve(type.filename) === path.resolve(document.uri.fsPath));
+            if (type) {
+                return { type, loader };
+            }
+        }
+    }
+
+    /* The binding entity under the cursor: Either an include or a property declaration. */
+    private entity(document: vscode.TextDocument, position: vscode.Position) {
+        const binding = this.binding(document);
+        const range = document.getWordRangeAtPosition(position, /[\w.,#+-]+/);
+        if (!binding || !range) {
+            return;
+        }
+
+        const word = document.getText(range);
+        const keys = keyPath(document, position.line);
+        let type = binding.type;
+        keys.slice(0, keys.length - 2).filter(key => key === 'child-binding').forEach(() => type = type?.child);
+        if (!type) {
+            return;
+        }
+
+        if (keys[0] === 'include') {
+            const list = keys.find(key => key === 'property-allowlist' || key === 'property-blocklist');
+            if (list && word !== list) {
+                // The entries in the property lists are properties in the included binding:
+                const spec = type.includeSpecs.find(spec => (list === 'property-allowlist' ? spec.allow : spec.block)?.includes(word));
+                const included = spec && binding.loader.get(spec.name).find(included => included.property(word));
+                if (included) {
+                    return { range, type: included, property: word };
+                }
+
+                return;
+            }
+
+            const name = word.replace(/\.ya?ml$/, '');
+            const included = type.includeSpecs.some(spec => spec.name === name) && binding.loader.get(name);
+            if (included?.length) {
+                return { range, include: included[0] };
+            }
+
+            return;
+        }
+
+        // Property declarations are the keys directly under a properties key:
+        if (keys.length >= 2 && keys[keys.length - 2] === 'properties' && keys[keys.length - 1] === word.replace(/^['"]|['"]$/g, '')) {
+            return { range, type, property: word };
+        }
+    }
+
+    provideDefinition(document: vscode.TextDocument, position: vscode.Position, token: vscode.CancellationToken): vscode.ProviderResult<vscode.Definition> {
+        const entity = this.entity(document, position);
+        if (entity?.include?.filename) {
+            return new vscode.Location(vscode.Uri.file(entity.include.filename), new vscode.Position(0, 0));
+        }
+
+        if (entity?.property) {
+            // Go to the binding that originally declared the property:
+            const source = entity.type.propertySources(entity.property)[0];
+            return propertyLocation(source, entity.property);
+        }
+    }
+
+    provideHover(document: vscode.TextDocument, position: vscode.Position, token: vscode.CancellationToken): vscode.ProviderResult<vscode.Hover> {
+        const entity = this.entity(document, position);
+        if (entity?.include) {
+            const text = new vscode.MarkdownString(`\`${entity.include.name}\``);
+            if (entity.include.description) {
+                text.appendMarkdown('\n\n').appendText(entity.include.description);
+            }
+
+            return new vscode.Hover(text, entity.range);
+        }
+
+        const prop = entity?.property && entity.type.property(entity.property);
+        if (prop) {
+            return new vscode.Hover(this.propertyText(prop, entity.type), entity.range);
+        }
+    }
+
+    /* Hover text for the property, with everything it inherits from the included bindings. */
+    private propertyText(prop: PropertyType, type: NodeType) {
+        const text = new vscode.MarkdownString(`\`${prop.name}\`: \`${Array.isArray(prop.type) ? prop.type.join(' | ') : prop.type ?? 'unknown'}\``);
+        if (prop.required) {
+            text.appendMarkdown(' *(required)*');
+        }
+
+        if (prop.description) {
+            text.appendMarkdown('\n\n').appendText(prop.description);
+        }
+
+        const details = new Array<string>();
+        if (prop.enum) {
+            details.push(`Enum: ${prop.enum.map(value => `\`${JSON.stringify(value)}\``).join(', ')}`);
+        }
+
+        if (prop.const !== undefined) {
+            details.push(`Const: \`${JSON.stringify(prop.const)}\``);
+        }
+
+        if (prop.default !== undefined) {
+            details.push(`Default: \`${JSON.stringify(prop.default)}\``);
+        }
+
+        if (details.length) {
+            text.appendMarkdown('\n\n' + details.join('\n\n'));
+        }
+
+        const sources = propertySourcesText(type, prop.name);
+        if (sources) {
+            text.appendMarkdown('\n\n' + sources);
+        }
+
+        return text;
+    }
+
+    activate(ctx: vscode.ExtensionContext) {
+        const bindings = <vscode.DocumentFilter>{ language: 'yaml', scheme: 'file' };
+        ctx.subscriptions.push(vscode.languages.registerDefinitionProvider(bindings, this));
+        ctx.subscriptions.push(vscode.languages.registerHoverProvider(bindings, this));
+    }
+}
@@ -68,6 +68,14 @@ export class DTSDocumentProvider implements vscode.TextDocumentContentProvider {
 
         const entities = new Array<CompiledEntity>();
         let text = '/dts-v1/;\n\n';
+        ctx.memreserves.forEach(r => {
+            text += `/memreserve/ ${r.addr.toString(true)} ${r.size.toString(true)};\n`;
+        });
+
+        if (ctx.memreserves.length) {
+            text += '\n';
+        }
+
         const addEntity = (entity: dts.Node | dts.Property | undefined, content: string) => {
             const e = <CompiledEntity>{ entity, start: text.length };
             entities.push(e);
@@ -98,7 +106,7 @@ export class DTSDocumentProvider implements vscode.TextDocumentContentProvider {
                 text += ';\n';
             });
 
-            n.children().forEach(c => addNode(c, indent + this.INDENT));
+            n.children().filter(c => !c.omitted).forEach(c => addNode(c, indent + this.INDENT));
 
             text += `${indent}};`;
             nodeEntity.end = text.length;
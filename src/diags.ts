@@ -69,6 +69,33 @@ export class DiagnosticsSet {
         return set.actions.filter(action => action.diagnostics?.find(diag => diag.range.intersection(range as vscode.Range)));
     }
 
+    /** Remove the diagnostics in the given range, along with their actions. */
+    remove(uri: vscode.Uri, range: vscode.Range) {
+        const set = this.sets[uri.toString()];
+        if (set) {
+            set.diags = set.diags.filter(diag => !range.contains(diag.range));
+            set.actions = set.actions.filter(action => !action.diagnostics?.every(diag => range.contains(diag.range)));
+        }
+    }
+
+    /** Move the diagnostics and the edits of their actions that are on or after the given line by a number of lines. */
+    moveLines(uri: vscode.Uri, line: number, delta: number) {
+        const move = (range: vscode.Range) => {
+            const movePos = (pos: vscode.Position) => (pos.line >= line) ? pos.translate(delta) : pos;
+            return new vscode.Range(movePos(range.start), movePos(range.end));
+        };
+
+        this.sets[uri.toString()]?.diags.forEach(diag => diag.range = move(diag.range));
+        this.all.flatMap(set => set.actions).filter(action => action.edit).forEach(action => {
+            const edit = new vscode.WorkspaceEdit();
+            action.edit.entries().forEach(([editUri, edits]) => edits.forEach(e => {
+                edit.replace(editUri, (editUri.toString() === uri.toString()) ? move(e.range) : e.range, e.newText);
+            }));
+
+            action.edit = edit;
+        });
+    }
+
     clear() {
         this.sets = {};
         this.last = undefined;
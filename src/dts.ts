@@ -6,8 +6,10 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as zephyr from './zephyr';
-import { Define, preprocess, Defines, ProcessedFile } from './preprocessor';
+import * as fs from 'fs';
+import { Define, preprocess, Defines, ProcessedFile, resolveInclude, Line, findReplacements, IncludeCache, stripComments, MacroInstance } from './preprocessor';
 import { DiagnosticsSet } from './diags';
+import { evaluate, ExpressionError } from './expression';
 import { NodeType, TypeLoader } from './types';
 import { ParserState } from './parser';
 
@@ -65,10 +67,13 @@ export class BoolValue extends PropertyValue {
 export class IntValue extends PropertyValue {
     raw: string;
     val: number;
+    /** Exact value, as the number representation loses precision above 2^53 */
+    bigVal: bigint;
 
-    protected constructor(raw: string, val: number, loc: vscode.Location) {
+    protected constructor(raw: string, val: number, loc: vscode.Location, bigVal?: bigint) {
         super(val, loc);
         this.raw = raw;
+        this.bigVal = bigVal ?? BigInt(Math.trunc(val));
     }
 
     static match(state: ParserState): IntValue {
@@ -77,11 +82,11 @@ export class IntValue extends PropertyValue {
             const loc = state.location();
             // If the raw value is a macro, we'll show that when printing a human readable version:
             if (state.getLine(loc.uri, loc.range.start)?.macro(loc.range.start)?.insert !== number[0]) {
-                return new IntValue(number[0], parseInt(number[1]), loc);
+                return new IntValue(number[0], parseInt(number[1]), loc, BigInt(number[1]));
             }
 
             const raw = state.raw(loc);
-            return new IntValue(raw, parseInt(number[1]), loc);
+            return new IntValue(raw, parseInt(number[1]), loc, BigInt(number[1]));
         }
     }
 
@@ -101,44 +106,61 @@ export class IntValue extends PropertyValue {
 export class Expression extends IntValue {
     static match(state: ParserState): Expression {
         const start = state.freeze();
-        let m = state.match(/^\(/);
-        if (!m) {
+        if (!state.match(/^\(/)) {
             return undefined;
         }
 
+        // Gather the text up to the closing parenthesis, keeping track of where each part of it came from:
         let level = 1;
         let text = '(';
+        const parts = [{ pos: 0, offset: start }];
         while (level !== 0) {
-            m = state.match(/^\s*(?:(?:<<|>>|&&|\|\||[!=<>]=|[|&~^<>!=+/*-]|\s*|0x[\da-fA-F]+|[\d.]+|'.')\s*)*([()])/);
+            const offset = state.freeze();
+            const m = state.match(/^[^()\n;{}"]*([()]|$)/);
             if (!m) {
-                state.pushDiag(`Unterminated expression`, vscode.DiagnosticSeverity.Error);
-                break;
+                state.pushDiag(`Unterminated expression`, vscode.DiagnosticSeverity.Error, state.location(start));
+                return undefined;
             }
 
+            parts.push({ pos: text.length, offset });
             text += m[0];
             if (m[1] === '(') {
                 level++;
-            } else {
+            } else if (m[1] === ')') {
                 level--;
+            } else {
+                // Continues on the next line:
+                text += ' ';
             }
         }
 
         const loc = state.location(start);
 
+        let value: bigint;
         try {
-            // JS doesn't support single-character arithmetic, so we need to convert those to numbers first:
-            const value = eval(text.replace(/'(.)'/g, (_, char: string) => char.charCodeAt(0).toString()));
-            // If the raw value is a macro, we'll show that when printing a human readable version:
-            const macroExpansion = state.getLine(loc.uri, loc.range.start)?.macro(loc.range.start)?.insert.trim();
-            if (macroExpansion && macroExpansion !== text.trim()) {
-                return new Expression(text, value, loc);
+            value = evaluate(text);
+        } catch (e) {
+            if (!(e instanceof ExpressionError)) {
+                throw e;
             }
 
-            const raw = state.raw(loc);
-            return new Expression(raw, value, loc);
-        } catch (e) {
-            state.pushDiag(`Unable to evaluate expression`, vscode.DiagnosticSeverity.Error, loc);
+            const offset = (pos: number) => {
+                const part = [...parts].reverse().find(p => p.pos <= pos);
+                return { line: part.offset.line, col: part.offset.col + pos - part.pos };
+            };
+
+            state.pushDiag(e.message, vscode.DiagnosticSeverity.Error, state.location(offset(e.start), offset(e.end)));
+            return undefined;
         }
+
+        // If the raw value is a macro, we'll show that when printing a human readable version:
+        const macroExpansion = state.getLine(loc.uri, loc.range.start)?.macro(loc.range.start)?.insert.trim();
+        if (macroExpansion && macroExpansion !== text.trim()) {
+            return new Expression(text, Number(value), loc, value);
+        }
+
+        const raw = state.raw(loc);
+        return new Expression(raw, Number(value), loc, value);
     }
 
     toString(raw=true) {
@@ -152,12 +174,34 @@ export class Expression extends IntValue {
 
 export class ArrayValue extends PropertyValue {
     val: (PHandle | IntValue | Expression)[];
-    private constructor(value: (PHandle | IntValue | Expression)[], loc: vscode.Location) {
+    /** Cell width, set with a /bits/ prefix */
+    bits: number;
+    private constructor(value: (PHandle | IntValue | Expression)[], loc: vscode.Location, bits=32) {
         super(value, loc);
+        this.bits = bits;
     }
 
     static match(state: ParserState): ArrayValue {
         const start = state.freeze();
+        let bits = 32;
+        if (state.match(/^\/bits\//)) {
+            state.skipWhitespace();
+            const width = state.match(/^\d+/);
+            if (!width) {
+                state.pushDiag(`Expected cell width after /bits/`, vscode.DiagnosticSeverity.Error);
+            } else if (![8, 16, 32, 64].includes(parseInt(width[0]))) {
+                state.pushDiag(`Cell width must be 8, 16, 32 or 64 bits`, vscode.DiagnosticSeverity.Error);
+            } else {
+                bits = parseInt(width[0]);
+            }
+
+            state.skipWhitespace();
+            if (!state.peek(/^</)) {
+                state.pushDiag(`Expected array after /bits/ prefix`, vscode.DiagnosticSeverity.Error, state.location(start));
+                return new ArrayValue([], state.location(start), bits);
+            }
+        }
+
         const phandleArray = state.match(/^</);
         if (!phandleArray) {
             return undefined;
@@ -167,6 +211,7 @@ export class ArrayValue extends PropertyValue {
         const values: (PHandle | IntValue | Expression)[] = [];
 
         while (state.skipWhitespace() && !state.match(/^>/)) {
+            const elemStart = state.freeze();
             let match: PHandle | IntValue | Expression | undefined;
             elems.find(e => match = e.match(state));
             if (match) {
@@ -174,6 +219,11 @@ export class ArrayValue extends PropertyValue {
                 continue;
             }
 
+            // Expressions that can't be evaluated report their own errors, and shouldn't be treated as unexpected data:
+            if (state.since(elemStart)) {
+                continue;
+            }
+
             const unbracedExpression = state.match(/^([+*/|!^-]|&&|<<|>>|==)/);
             if (unbracedExpression) {
                 state.pushDiag(`Expression without a surrounding parenthesis`, vscode.DiagnosticSeverity.Error);
@@ -220,7 +270,19 @@ export class ArrayValue extends PropertyValue {
             break;
         }
 
-        return new ArrayValue(values, state.location(start));
+        // Cells must fit in the cell width, but negative values may be sign extended:
+        const mask = (BigInt(1) << BigInt(bits)) - BigInt(1);
+        values.forEach(v => {
+            if (v instanceof PHandle) {
+                if (bits !== 32) {
+                    state.pushDiag(`References are only allowed in arrays with 32-bit cells`, vscode.DiagnosticSeverity.Error, v.loc);
+                }
+            } else if (v.bigVal > mask || v.bigVal < -mask - BigInt(1)) {
+                state.pushDiag(`Value out of range for ${bits}-bit array element`, vscode.DiagnosticSeverity.Error, v.loc);
+            }
+        });
+
+        return new ArrayValue(values, state.location(start), bits);
     }
 
     cellAt(pos: vscode.Position, uri: vscode.Uri) {
@@ -248,25 +310,107 @@ export class ArrayValue extends PropertyValue {
     }
 
     toString(raw=false) {
-        if (raw && this.val.length === 1) {
+        if (raw && this.val.length === 1 && this.bits === 32) {
             return this.val[0].toString(raw);
         }
 
-        return `<${this.val.map(v => v.toString(true)).join(' ')}>`;
+        const prefix = (this.bits === 32) ? '' : `/bits/ ${this.bits} `;
+        return `${prefix}<${this.val.map(v => v.toString(true)).join(' ')}>`;
     }
 }
 
+type Incbin = { file: StringValue, uri?: vscode.Uri, offset?: IntValue, size?: IntValue, length?: number };
+
 export class BytestringValue extends PropertyValue {
     val: number[];
-    private constructor(value: number[], loc: vscode.Location) {
+    /** Binary file included with /incbin/ */
+    incbin?: Incbin;
+    private constructor(value: number[], loc: vscode.Location, incbin?: Incbin) {
         super(value, loc);
+        this.incbin = incbin;
     }
 
     get length() {
-        return this.val.length;
+        return this.incbin?.length ?? this.val.length;
+    }
+
+    private static matchIncbin(state: ParserState): BytestringValue {
+        const start = state.freeze();
+        if (!state.match(/^\/incbin\//)) {
+            return;
+        }
+
+        state.skipWhitespace();
+        if (!state.match(/^\(/)) {
+            state.pushDiag('Expected ( after /incbin/', vscode.DiagnosticSeverity.Error);
+            return new BytestringValue([], state.location(start));
+        }
+
+        state.skipWhitespace();
+        const file = StringValue.match(state);
+        if (!file) {
+            state.pushDiag('Expected file name', vscode.DiagnosticSeverity.Error);
+            return new BytestringValue([], state.location(start));
+        }
+
+        const args = new Array<IntValue>();
+        while (state.skipWhitespace() && state.match(/^,/)) {
+            state.skipWhitespace();
+            const arg = IntValue.match(state) ?? Expression.match(state);
+            if (!arg) {
+                state.pushDiag('Expected number', vscode.DiagnosticSeverity.Error);
+                break;
+            }
+
+            args.push(arg);
+        }
+
+        if (!state.match(/^\)/)) {
+            state.pushDiag('Missing terminating )', vscode.DiagnosticSeverity.Error);
+            state.pushInsertAction('Add terminating )', ')').isPreferred = true;
+        }
+
+        const incbin: Incbin = { file, offset: args[0], size: args[1] };
+        const loc = state.location(start);
+        if (args.length === 1 || args.length > 2) {
+            state.pushDiag('Expected both offset and size, or neither', vscode.DiagnosticSeverity.Error, loc);
+            return new BytestringValue([], loc, incbin);
+        }
+
+        const resolved = resolveInclude(file.val, path.dirname(file.loc.uri.fsPath), state.includes);
+        if (!resolved) {
+            state.pushDiag(`No such file: ${file.val}`, vscode.DiagnosticSeverity.Warning, file.loc);
+            return new BytestringValue([], loc, incbin);
+        }
+
+        incbin.uri = vscode.Uri.file(resolved);
+        const stat = fs.statSync(resolved);
+        if (!stat.isFile()) {
+            state.pushDiag(`${file.val} is not a file`, vscode.DiagnosticSeverity.Error, file.loc);
+            return new BytestringValue([], loc, incbin);
+        }
+
+        const fileSize = stat.size;
+        const offset = incbin.offset?.val ?? 0;
+        if (offset > fileSize) {
+            state.pushDiag(`Offset exceeds the file size (${fileSize} bytes)`, vscode.DiagnosticSeverity.Error, incbin.offset.loc);
+            return new BytestringValue([], loc, incbin);
+        }
+
+        if (incbin.size && offset + incbin.size.val > fileSize) {
+            state.pushDiag(`Only ${fileSize - offset} bytes available after offset ${offset}`, vscode.DiagnosticSeverity.Error, incbin.size.loc);
+        }
+
+        incbin.length = Math.min(incbin.size?.val ?? fileSize, fileSize - offset);
+        return new BytestringValue([], loc, incbin);
     }
 
     static match(state: ParserState): BytestringValue {
+        const incbin = BytestringValue.matchIncbin(state);
+        if (incbin) {
+            return incbin;
+        }
+
         if (!state.match(/^\[/)) {
             return;
         }
@@ -287,6 +431,11 @@ export class BytestringValue extends PropertyValue {
     }
 
     toString() {
+        if (this.incbin) {
+            const args = [this.incbin.file, this.incbin.offset, this.incbin.size].filter(a => a);
+            return `/incbin/(${args.map(a => a.toString(a instanceof IntValue)).join(', ')})`;
+        }
+
         return `[ ${this.val.map(v => (v < 0x10 ? '0' : '') + v.toString(16)).join(' ')} ]`;
     }
 }
@@ -306,7 +455,8 @@ export class PHandle extends PropertyValue {
             return node.labels().includes(labelName);
         }
 
-        return this.val === node.path;
+        // Paths don't need the trailing slash:
+        return this.val === node.path || this.val + '/' === node.path;
     }
 
     static match(state: ParserState): PHandle {
@@ -613,7 +763,7 @@ export class Property {
             return;
         }
 
-        const entries = new Array<{ addrs: IntValue[], sizes: IntValue[] }>();
+        const entries = new Array<{ addrs: IntValue[], sizes: IntValue[], addr: bigint, size: bigint }>();
 
         const addrCells = this.node.parent?.addrCells() ?? 2;
         const sizeCells = this.node.parent?.sizeCells() ?? 1;
@@ -632,7 +782,33 @@ export class Property {
                     break;
                 }
 
-                entries.push({ addrs: <IntValue[]>addrs, sizes: <IntValue[]> sizes });
+                entries.push({ addrs: <IntValue[]>addrs, sizes: <IntValue[]> sizes, addr: cellsValue(<IntValue[]>addrs), size: cellsValue(<IntValue[]>sizes) });
+            }
+        });
+
+        return entries;
+    }
+
+    /** Address translations in a ranges property, from the node's address space to its parent's */
+    get ranges() {
+        const val = this.pHandleArray;
+        if (!val) {
+            return;
+        }
+
+        const entries = new Array<{ childAddr: IntValue[], parentAddr: IntValue[], length: IntValue[], child: bigint, parent: bigint, size: bigint }>();
+
+        const addrCells = this.node.addrCells();
+        const parentAddrCells = this.node.parent?.addrCells() ?? 2;
+        const sizeCells = this.node.sizeCells();
+        const entryLength = addrCells + parentAddrCells + sizeCells;
+
+        val.filter(v => v.val.every(cell => cell instanceof IntValue)).forEach(v => {
+            for (let i = 0; i + entryLength <= v.val.length; i += entryLength) {
+                const childAddr = <IntValue[]>v.val.slice(i, i + addrCells);
+                const parentAddr = <IntValue[]>v.val.slice(i + addrCells, i + addrCells + parentAddrCells);
+                const length = <IntValue[]>v.val.slice(i + addrCells + parentAddrCells, i + entryLength);
+                entries.push({ childAddr, parentAddr, length, child: cellsValue(childAddr), parent: cellsValue(parentAddr), size: cellsValue(length) });
             }
         });
 
@@ -695,12 +871,34 @@ export class Property {
         return map;
     }
 
-    valueNames(): string[] {
-        if (!this.name.endsWith('s')) {
-            return [];
+    /** Specifier space of a phandle-array property, if its binding overrides the one derived from the property name */
+    get specifierSpace(): string | undefined {
+        return this.node.type?.specifierSpace(this.name);
+    }
+
+    /** The companion property naming each entry in this property, like pwm-names for pwms, or mbox-names for mboxes in the mbox specifier space. */
+    get namesProperty(): Property | undefined {
+        // The binding's specifier space takes precedence over the property name:
+        const space = this.specifierSpace;
+        const names = space && this.node.property(space + '-names');
+        if (names) {
+            return names;
+        }
+
+        if (this.name.endsWith('s')) {
+            return this.node.property(this.name.slice(0, this.name.length - 1) + '-names');
+        }
+    }
+
+    /** For *-names properties: The property whose entries this property names */
+    get namedProperty(): Property | undefined {
+        if (this.name.endsWith('-names')) {
+            return this.node.uniqueProperties().find(p => p.name !== this.name && p.namesProperty?.name === this.name);
         }
+    }
 
-        return this.node.property(this.name.slice(0, this.name.length - 1) + '-names')?.stringArray ?? [];
+    valueNames(): string[] {
+        return this.namesProperty?.stringArray ?? [];
     }
 
     /* Get the expected cellnames for this property. */
@@ -731,10 +929,10 @@ export class Property {
                 const parentName = this.node.parent?.property(this.name.slice(0, this.name.length - 1) + '-parent')?.pHandle?.val;
                 if (parentName) {
                     const parent = ctx.node(parentName);
-                    const cellCount = parent?.cellCount(this.name);
+                    const cellCount = parent?.cellCount(this.name, this.specifierSpace);
                     if (cellCount !== undefined) {
                         const cells = new Array(cellCount).fill('cell').map((c, i) => `${c}-${i}`);
-                        (<string[]>parent.type?.cells(cellName(this.name)))?.forEach((name, i) => cells[i] = name);
+                        (<string[]>parent.type?.cells(cellName(this.name, this.specifierSpace)))?.forEach((name, i) => cells[i] = name);
                         return cells;
                     }
                 }
@@ -769,7 +967,7 @@ export class Property {
             let refCells = [];
             return contents.map(c => {
                 if (c instanceof PHandle) {
-                    refCells = Array.from(ctx.node(c.val)?.refCellNames(this.name) ?? [])?.reverse() ?? [];
+                    refCells = Array.from(ctx.node(c.val)?.refCellNames(this.name, this.specifierSpace) ?? [])?.reverse() ?? [];
                     return c.toString();
                 }
 
@@ -798,6 +996,10 @@ export class Property {
         if (this.value.length === 1) {
             const v = this.value[0];
             if (v instanceof ArrayValue) {
+                if (v.bits === 8 && v.length > 0 && v.isNumberArray()) {
+                    return 'uint8-array';
+                }
+
                 if (v.length === 1) {
                     if (v.val[0] instanceof IntValue) {
                         return 'int';
@@ -845,6 +1047,10 @@ export class Property {
 
         if (this.value.every(v => v instanceof ArrayValue)) {
 
+            if (this.value.every((v: ArrayValue) => v.bits === 8 && v.isNumberArray())) {
+                return 'uint8-array';
+            }
+
             if (this.value.every((v: ArrayValue) => v.val.every(e => e instanceof PHandle))) {
                 return 'phandles';
             }
@@ -875,6 +1081,8 @@ export class NodeEntry {
     nameLoc: vscode.Location;
     file: DTSFile;
     number: number;
+    /** Overlay fragment that applies this entry to its target, for __overlay__ entries in /plugin/ files */
+    fragment?: NodeEntry;
 
     constructor(loc: vscode.Location, node: Node, nameLoc: vscode.Location, ctx: DTSFile, number: number) {
         this.node = node;
@@ -929,6 +1137,10 @@ export class Node {
     name: string;
     fullName: string;
     deleted?: vscode.Location;
+    /** Location of the /omit-if-no-ref/ directive, if any */
+    omitIfNoRef?: vscode.Location;
+    /** The node is marked with /omit-if-no-ref/ and nothing references it, so it won't be part of the output */
+    omitted = false;
     parent?: Node;
     path: string;
     address?: number;
@@ -1014,8 +1226,8 @@ export class Node {
         return `&{${this.path}}`;
     }
 
-    remap(name: string, entry: PHandleEntry): PHandleEntry {
-        const entity = name.slice(0, name.length - 1);
+    remap(name: string, entry: PHandleEntry, space?: string): PHandleEntry {
+        const entity = space ?? name.slice(0, name.length - 1);
         const map = this.property(entity + '-map');
         if (!map) {
             return;
@@ -1054,18 +1266,55 @@ export class Node {
         return this.property('reg')?.regs;
     }
 
-    cellCount(prop: string) {
-        return this.property('#' + cellName(prop))?.number ?? 1;
+    /**
+     * Translate an address in this node's address space, like a child node's reg address, to the root address space,
+     * through the ranges properties of this node and its parents.
+     *
+     * Returns undefined if the address isn't mapped to the root address space.
+     */
+    translateAddress(addr: bigint): bigint | undefined {
+        if (!this.parent) {
+            return addr;
+        }
+
+        const ranges = this.property('ranges');
+        if (!ranges) {
+            return;
+        }
+
+        // Empty ranges are identity mappings:
+        if (ranges.boolean || ranges.pHandleArray?.every(v => !v.val.length)) {
+            return this.parent.translateAddress(addr);
+        }
+
+        const range = ranges.ranges?.find(r => addr >= r.child && addr < r.child + r.size);
+        if (range) {
+            return this.parent.translateAddress(addr - range.child + range.parent);
+        }
+    }
+
+    /** Reg entries with their address in the root address space, if mapped */
+    cpuRegs() {
+        return this.regs()?.map(reg => ({ ...reg, cpuAddr: this.parent?.translateAddress(reg.addr) }));
+    }
+
+    cellCount(prop: string, space?: string) {
+        return this.property('#' + cellName(prop, space))?.number ?? 1;
     }
 
-    /** Cell names exposed when the node is referenced */
-    refCellNames(prop: string): string[] {
-        const typeCellNames = this.type?.cells(cellName(prop));
+    /**
+     * Cell names exposed when the node is referenced
+     *
+     * @param prop Name of the referencing property
+     * @param space Specifier space of the referencing property, if its binding has one
+     */
+    refCellNames(prop: string, space?: string): string[] {
+        const typeCellNames = this.type?.cells(cellName(prop, space));
         if (typeCellNames) {
             return typeCellNames;
         }
 
-        const count = this.property('#' + cellName(prop))?.number;
+        const count = this.property('#' + cellName(prop, space))?.number;
         if (count === undefined) {
             return;
         }
@@ -1092,7 +1341,7 @@ export class Node {
         }
 
         if (expandChildren) {
-            result += children.filter(c => !c.deleted).map(c => c.toString(expandChildren, indent) + '\n').join('\n');
+            result += children.filter(c => !c.deleted && !c.omitted).map(c => c.toString(expandChildren, indent) + '\n').join('\n');
         } else {
             result += children.map(c => indent + c.fullName + ' { /* ... */ };\n').join('\n');
         }
@@ -1101,15 +1350,37 @@ export class Node {
     }
 }
 
+/** Reserved memory area, declared with /memreserve/ */
+export type MemReserve = { addr: IntValue, size: IntValue, loc: vscode.Location };
+
+/** Move the parts of a range that are on or after the given line by a number of lines. */
+function moveRange(range: vscode.Range, line: number, delta: number) {
+    const move = (pos: vscode.Position) => (pos.line >= line) ? pos.translate(delta) : pos;
+    return new vscode.Range(move(range.start), move(range.end));
+}
+
+function moveLocation(loc: vscode.Location, uri: vscode.Uri, line: number, delta: number) {
+    if (loc?.uri.toString() !== uri.toString()) {
+        return loc;
+    }
+
+    return new vscode.Location(loc.uri, moveRange(loc.range, line, delta));
+}
+
 export class DTSFile {
     readonly uri: vscode.Uri;
     readonly ctx: DTSCtx;
     processed?: ProcessedFile;
     roots: NodeEntry[];
+    /** Overlay fragments in /plugin/ files. They aren't part of the tree themselves, so they're kept out of the entries. */
+    fragments: NodeEntry[];
     entries: NodeEntry[];
+    memreserves: MemReserve[];
     diags: DiagnosticsSet;
     dirty=true;
     priority: number;
+    /** Linux style overlay, where the root node contains fragments that are applied to their target nodes */
+    plugin=false;
 
     constructor(uri: vscode.Uri, ctx: DTSCtx) {
         this.uri = uri;
@@ -1118,6 +1389,8 @@ export class DTSFile {
         this.priority = ctx.fileCount;
         this.roots = [];
         this.entries = [];
+        this.fragments = [];
+        this.memreserves = [];
     }
 
     get defines() {
@@ -1132,14 +1405,120 @@ export class DTSFile {
         return this.processed?.lines ?? [];
     }
 
+    get inactive() {
+        return this.processed?.inactive ?? [];
+    }
+
+    get conditionals() {
+        return this.processed?.conditionals ?? [];
+    }
+
+    get directives() {
+        return this.processed?.directives ?? [];
+    }
+
     remove() {
         this.entries.forEach(e => {
             e.node.entries = e.node.entries.filter(nodeEntry => nodeEntry !== e);
         });
         this.entries = [];
+        this.fragments = [];
         this.dirty = true;
     }
 
+    /**
+     * Move everything in the given file that's on or after the given line by a number of lines, after lines were
+     * added or removed above it.
+     */
+    moveLines(uri: vscode.Uri, line: number, delta: number) {
+        const move = (loc: vscode.Location) => moveLocation(loc, uri, line, delta);
+        const moveValue = (value: PropertyValue) => {
+            value.loc = move(value.loc);
+            if (value instanceof ArrayValue) {
+                value.val.forEach(moveValue);
+            }
+        };
+
+        [...this.entries, ...this.fragments].forEach(entry => {
+            entry.loc = move(entry.loc);
+            entry.nameLoc = move(entry.nameLoc);
+            entry.properties.forEach(prop => {
+                if (prop.loc.uri.toString() === uri.toString()) {
+                    prop.fullRange = moveRange(prop.fullRange, line, delta);
+                }
+
+                prop.loc = move(prop.loc);
+                prop.value.forEach(moveValue);
+            });
+        });
+
+        Object.values(this.ctx.nodes).forEach(node => {
+            node.deleted = node.deleted && move(node.deleted);
+            node.omitIfNoRef = node.omitIfNoRef && move(node.omitIfNoRef);
+        });
+
+        this.memreserves.forEach(memreserve => {
+            memreserve.loc = move(memreserve.loc);
+            moveValue(memreserve.addr);
+            moveValue(memreserve.size);
+        });
+
+        if (this.processed) {
+            const lines = new Map<Line, Line>();
+            const moveLine = (l: Line) => {
+                if (!l || l.uri.toString() !== uri.toString() || l.number < line) {
+                    return l;
+                }
+
+                if (!lines.has(l)) {
+                    lines.set(l, l.moveTo(l.number + delta));
+                }
+
+                return lines.get(l);
+            };
+
+            // Defines are shared with other files through the include cache, so the moved ones are replaced by copies:
+            const defines = new Map<Define, Define>();
+            const moveDefine = (define: Define) => {
+                if (!defines.has(define)) {
+                    const definition = moveLine(define.definition);
+                    const undef = moveLine(define.undef);
+                    if (definition === define.definition && undef === define.undef) {
+                        defines.set(define, define);
+                    } else {
+                        defines.set(define, Object.assign(Object.create(Object.getPrototypeOf(define)), define, { definition, undef }));
+                    }
+                }
+
+                return defines.get(define);
+            };
+
+            const snapshots = new Map<Defines, Defines>();
+            const moveDefines = (dict: Defines) => {
+                if (dict && !snapshots.has(dict)) {
+                    const moved: Defines = {};
+                    Object.entries(dict).forEach(([name, define]) => moved[name] = moveDefine(define));
+                    snapshots.set(dict, moved);
+                }
+
+                return dict && snapshots.get(dict);
+            };
+
+            this.processed.lines = this.processed.lines.map(moveLine);
+            this.processed.defines = moveDefines(this.processed.defines);
+            lines.forEach(moved => {
+                moved.defines = moveDefines(moved.defines);
+                moved.macros = moved.macros.map(m => new MacroInstance(moveDefine(m.macro), m.raw, m.insert, m.start));
+            });
+            this.processed.includes.forEach(include => include.loc = move(include.loc));
+            this.processed.inactive = this.processed.inactive.map(move);
+            this.processed.conditionals = this.processed.conditionals.map(move);
+            this.processed.directives = this.processed.directives.map(move);
+        }
+
+        this.diags.moveLines(uri, line, delta);
+    }
+
     has(uri: vscode.Uri) {
         return (
             this.uri.toString() === uri.toString() ||
@@ -1151,31 +1530,60 @@ export class DTSFile {
     }
 
     getEntryAt(pos: vscode.Position, uri: vscode.Uri): NodeEntry {
-        const entries = this.entries.filter(e => e.loc.uri.fsPath === uri.fsPath && e.loc.range.contains(pos));
+        const entries = [...this.entries, ...this.fragments].filter(e => e.loc.uri.fsPath === uri.fsPath && e.loc.range.contains(pos));
         if (entries.length === 0) {
             return undefined;
         }
 
-        /* When multiple nodes are matching, they extend each other,
-         * and the one with the longest path is the innermost child.
+        /* When multiple entries are matching, they're nested inside each other,
+         * and the innermost one is contained by all the others.
+         * Can't use the node path for this, as overlay fragments target nodes outside their own path.
          */
-        return entries.sort((a, b) => b.node.path.length - a.node.path.length)[0];
+        return entries.reduce((inner, e) => inner.loc.range.contains(e.loc.range) ? e : inner);
     }
 
     getPropertyAt(pos: vscode.Position, uri: vscode.Uri): Property {
         return this.getEntryAt(pos, uri)?.getPropertyAt(pos, uri);
     }
+
+    /**
+     * Map a location in a preprocessed file back to its original source, according to the linemarkers from cpp.
+     *
+     * cpp mostly keeps the layout of each line, so the columns are left as they are.
+     */
+    origin(loc: vscode.Location): vscode.Location | undefined {
+        const uri = loc.uri.toString();
+        const originAt = (pos: vscode.Position) => this.lines.find(l => l.number === pos.line && l.origin && l.uri.toString() === uri)?.origin;
+        const start = originAt(loc.range.start);
+        if (!start) {
+            return;
+        }
+
+        const end = originAt(loc.range.end);
+        if (end?.uri.toString() !== start.uri.toString() || end.range.start.line < start.range.start.line) {
+            return new vscode.Location(start.uri, new vscode.Position(start.range.start.line, loc.range.start.character));
+        }
+
+        return new vscode.Location(start.uri, new vscode.Range(start.range.start.line, loc.range.start.character, end.range.start.line, loc.range.end.character));
+    }
 }
 
 export class DTSCtx {
     overlays: DTSFile[];
     boardFile: DTSFile;
     board?: zephyr.Board;
+    /** Zephyr installation of the workspace folder the context belongs to */
+    zephyr?: zephyr.Installation;
+    types: TypeLoader;
     parsing?: boolean;
     nodes: {[fullPath: string]: Node};
     dirty: vscode.Uri[];
     includes = new Array<string>();
     _name?: string;
+    /** Zephyr build directory the context was imported from */
+    buildDir?: string;
+    /** Zephyr snippets in the context, with the overlays they appended to it */
+    snippets = new Array<{ name: string, overlays: string[] }>();
     id: string;
     saved=false;
 
@@ -1190,7 +1598,7 @@ export class DTSCtx {
             return this._name;
         }
 
-        const uri = this.files.pop()?.uri;
+        const uri = (this.appOverlay ?? this.boardFile)?.uri;
         let folder = path.dirname(uri.fsPath);
         if (path.basename(folder) === 'boards') {
             folder = path.dirname(folder);
@@ -1224,10 +1632,7 @@ export class DTSCtx {
     }
 
     async setBoard(board: zephyr.Board) {
-        if (board.arch) {
-            this.includes = zephyr.modules.map(module => module + '/dts/' + board.arch);
-        }
-
+        this.includes = this.zephyr?.includes(board) ?? [];
         this.board = board;
         this.boardFile = new DTSFile(vscode.Uri.file(board.path), this);
         this.dirty.push(this.boardFile.uri);
@@ -1238,6 +1643,21 @@ export class DTSCtx {
         this.dirty.push(uri);
     }
 
+    appendOverlay(uri: vscode.Uri) {
+        this.overlays = [...this.overlays, new DTSFile(uri, this)];
+        this.dirty.push(uri);
+    }
+
+    /** Name of the snippet that added the overlay file to the context, if any. */
+    snippet(file: DTSFile) {
+        return this.snippets.find(snippet => snippet.overlays.includes(file.uri.fsPath))?.name;
+    }
+
+    /** The application's own overlay file. Snippets append their overlays after it. */
+    get appOverlay(): DTSFile | undefined {
+        return [...this.overlays].reverse().find(overlay => !this.snippet(overlay));
+    }
+
     adoptNodes(file: DTSFile) {
         file.entries.forEach(e => {
             if (!(e.node.path in this.nodes)) {
@@ -1306,16 +1726,45 @@ export class DTSCtx {
         return prop;
     }
 
+    origin(loc: vscode.Location): vscode.Location | undefined {
+        let origin: vscode.Location;
+        this.files.filter(f => f.has(loc.uri)).find(file => origin = file.origin(loc));
+        return origin;
+    }
+
     getReferences(node: Node): PHandle[] {
         const refs = new Array<PHandle>();
 
         this.properties.forEach(p => {
-            refs.push(...(<PHandle[]>p.pHandleArray?.flatMap(v => v.val.filter(v => v instanceof PHandle && v.is(node))) ?? p.pHandles ?? []));
+            refs.push(...(<PHandle[]>p.value.flatMap(v => (v instanceof ArrayValue) ? v.val : [v]).filter(v => v instanceof PHandle && v.is(node))));
         });
 
         return refs;
     }
 
+    /** Mark unreferenced /omit-if-no-ref/ nodes and their children as omitted */
+    resolveOmitted() {
+        const omit = (n: Node) => {
+            n.omitted = true;
+            n.children().forEach(omit);
+        };
+
+        // Collect all references in a single pass, as SoC files can mark hundreds of nodes:
+        const labels = new Set<string>();
+        const paths = new Set<string>();
+        this.properties.forEach(p => p.value.flatMap(v => (v instanceof ArrayValue) ? v.val : [v]).forEach(v => {
+            if (v instanceof PHandle && v.kind === 'ref') {
+                labels.add(v.val.slice(1));
+            } else if (v instanceof PHandle && v.kind === 'pathRef') {
+                paths.add(v.val.endsWith('/') ? v.val : v.val + '/');
+            }
+        }));
+
+        const referenced = (n: Node) => paths.has(n.path) || n.labels().some(label => labels.has(label));
+        this.nodeArray().forEach(n => n.omitted = false);
+        this.nodeArray().filter(n => n.omitIfNoRef && !n.deleted && !referenced(n)).forEach(omit);
+    }
+
     getProperties(range: vscode.Range, uri: vscode.Uri) {
         const props = new Array<Property>();
         this.nodeArray().forEach(n => {
@@ -1361,6 +1810,10 @@ export class DTSCtx {
         return this.entries.flatMap(e => e.properties);
     }
 
+    get memreserves() {
+        return this.files.flatMap(f => f.memreserves);
+    }
+
     get root() {
         return this.nodes['/'];
     }
@@ -1374,13 +1827,54 @@ export class DTSCtx {
     }
 }
 
+function elapsed(start: [number, number]) {
+    const time = process.hrtime(start);
+    return ((time[0] * 1e9 + time[1]) / 1000000).toFixed(2);
+}
+
+/** Target of an overlay fragment, as far as it has been parsed */
+function fragmentTarget(ctx: DTSCtx, fragment: NodeEntry) {
+    const target = fragment.node.property('target');
+    const targetPath = fragment.node.property('target-path');
+    const node = target ? (target.pHandle && ctx.node(target.pHandle.toString())) : (targetPath?.string && ctx.node(targetPath.string));
+    return { node: node || undefined, ref: target?.pHandle?.toString() ?? `&{${targetPath?.string ?? '/'}}`, target, targetPath };
+}
+
+/** Move the entry to another node, along with the entries nested in it */
+function moveEntry(ctx: DTSCtx, entry: NodeEntry, node: Node) {
+    if (entry.node === node) {
+        return;
+    }
+
+    const old = entry.node;
+    old.entries = old.entries.filter(e => e !== entry);
+    if (!old.entries.length && ctx.nodes[old.path] === old) {
+        delete ctx.nodes[old.path];
+    }
+
+    entry.node = node;
+    node.entries.push(entry);
+    entry.children.forEach(child => {
+        const [name, address] = child.node.fullName.split('@');
+        let childNode = new Node(name, address, node);
+        if (ctx.nodes[childNode.path]) {
+            childNode = ctx.nodes[childNode.path];
+        } else {
+            ctx.nodes[childNode.path] = childNode;
+        }
+
+        childNode.omitIfNoRef = childNode.omitIfNoRef ?? child.node.omitIfNoRef;
+        moveEntry(ctx, child, childNode);
+    });
+}
+
 export class Parser {
     private includes: string[];
     private defines: Defines;
     private boards: { [board: string]: zephyr.Board };
     private appCtx: DTSCtx[];
     private boardCtx: DTSCtx[]; // Raw board contexts, for when the user just opens a .dts or .dtsi file without any overlay
-    private types: TypeLoader;
+    private types: (installation?: zephyr.Installation) => TypeLoader;
     private changeEmitter: vscode.EventEmitter<DTSCtx>;
     onChange: vscode.Event<DTSCtx>;
     private openEmitter: vscode.EventEmitter<DTSCtx>;
@@ -1391,9 +1885,16 @@ export class Parser {
     private inDTS: boolean;
     private isStable = true;
     private waiters = new Array<() => void>();
-
-    constructor(defines: {[name: string]: string}, includes: string[], types: TypeLoader) {
+    /** Preprocessed include files, shared by all contexts */
+    private cache = new IncludeCache();
+    /** Watchers for include directories outside the workspace, keyed by directory */
+    private includeWatchers: { [dir: string]: vscode.FileSystemWatcher } = {};
+    /** Channel for reporting parse times, if any */
+    private output?: vscode.OutputChannel;
+
+    constructor(defines: {[name: string]: string}, includes: string[], types: (installation?: zephyr.Installation) => TypeLoader, output?: vscode.OutputChannel) {
         this.includes = includes;
+        this.output = output;
         this.defines = {};
         this.types = types;
         this.boards = {};
@@ -1407,12 +1908,6 @@ export class Parser {
         this.onDelete = this.deleteEmitter.event;
 
         Object.entries(defines).forEach(([name, value]) => this.defines[name] = new Define(name, value));
-
-        zephyr.modules.forEach(m => {
-            this.includes.push(m + '/include');
-            this.includes.push(m + '/dts');
-            this.includes.push(m + '/dts/common');
-        });
     }
 
     file(uri: vscode.Uri) {
@@ -1459,13 +1954,13 @@ export class Parser {
         return [...this.appCtx, ...this.boardCtx];
     }
 
-    private async guessOverlayBoard(uri: vscode.Uri): Promise<zephyr.Board> {
+    private async guessOverlayBoard(ctx: DTSCtx, uri: vscode.Uri): Promise<zephyr.Board> {
         const boardName = path.basename(uri.fsPath, '.overlay');
         // Some generic names are used for .overlay files: These can be ignored.
         const ignoredNames = ['app', 'dts', 'prj'];
         let board: zephyr.Board;
         if (!ignoredNames.includes(boardName)) {
-            board = await zephyr.findBoard(boardName);
+            board = ctx.zephyr?.findBoard(boardName);
             if (board) {
                 this.boards[boardName] = board;
                 console.log(uri.toString() + ': Using board ' + boardName);
@@ -1473,7 +1968,7 @@ export class Parser {
             }
         }
 
-        board = await zephyr.defaultBoard();
+        board = await ctx.zephyr?.defaultBoard();
         if (board) {
             const options = ['Change default board'];
             vscode.window.showInformationMessage(`Using ${board.name} as a default board.`, ...options).then(async e => {
@@ -1487,22 +1982,25 @@ export class Parser {
         // At this point, the user probably didn't set up their repo correctly, but we'll give them a chance to fix it:
         return await vscode.window.showErrorMessage('DeviceTree: Unable to find board.', 'Select a board').then(e => {
             if (e) {
-                return zephyr.selectBoard(); // TODO: Reload context instead of blocking?
+                return ctx.zephyr?.selectBoard(); // TODO: Reload context instead of blocking?
             }
         });
     }
 
     async addContext(board?: vscode.Uri | zephyr.Board, overlays=<vscode.Uri[]>[], name?: string): Promise<DTSCtx> {
         const ctx = new DTSCtx();
+        // Overlays belong to the application, so they decide which installation to use:
+        ctx.zephyr = zephyr.installation(overlays.length ? [...overlays].pop() : board instanceof vscode.Uri ? board : board && vscode.Uri.file(board.path));
+        ctx.types = this.types(ctx.zephyr);
         let boardDoc: vscode.TextDocument;
         if (board instanceof vscode.Uri) {
-            ctx.board = { name: path.basename(board.fsPath, path.extname(board.fsPath)), path: board.fsPath, arch: board.fsPath.match(/boards[/\\]([^./\\]+)/)?.[1] };
+            ctx.board = ctx.zephyr?.findBoardFile(board.fsPath) ?? { name: path.basename(board.fsPath, path.extname(board.fsPath)), path: board.fsPath, arch: board.fsPath.match(/boards[/\\]([^./\\]+)/)?.[1] };
             boardDoc = await vscode.workspace.openTextDocument(board).then(doc => doc, _ => undefined);
         } else if (board) {
             ctx.board = board;
             boardDoc = await vscode.workspace.openTextDocument(board.path).then(doc => doc, _ => undefined);
         } else if (overlays.length) {
-            ctx.board = await this.guessOverlayBoard([...overlays].pop());
+            ctx.board = await this.guessOverlayBoard(ctx, [...overlays].pop());
             if (!ctx.board) {
                 return;
             }
@@ -1517,10 +2015,7 @@ export class Parser {
         }
 
         // Board specific includes:
-        if (ctx.board.arch) {
-            // Should this be SOC_DIR based?
-            ctx.includes = zephyr.modules.map(module => module + '/dts/' + ctx.board.arch);
-        }
+        ctx.includes = ctx.zephyr?.includes(ctx.board) ?? [];
 
         ctx.parsing = true;
         ctx.boardFile = await this.parse(ctx, boardDoc);
@@ -1531,6 +2026,7 @@ export class Parser {
         }
 
         ctx._name = name;
+        ctx.resolveOmitted();
 
         /* We want to keep the board contexts rid of .dtsi files if we can, as they're not complete.
          * Remove any .dtsi contexts this board file includes:
@@ -1587,9 +2083,29 @@ export class Parser {
         }
     }
 
+    /** Resolve the node types in the context again after its bindings changed. */
+    retype(ctx: DTSCtx, stale: (node: Node) => boolean) {
+        const nodes = ctx.nodeArray().filter(stale);
+        if (nodes.length) {
+            nodes.forEach(node => node.type = ctx.types.nodeType(node));
+            this.changeEmitter.fire(ctx);
+        }
+    }
+
+    async addSnippets(ctx: DTSCtx, ...names: string[]) {
+        names.filter(name => !ctx.snippets.some(snippet => snippet.name === name)).forEach(name => {
+            const overlays = (ctx.zephyr?.snippetOverlays(name, ctx.board) ?? []).map(overlay => vscode.Uri.file(overlay).fsPath);
+            ctx.snippets.push({ name, overlays });
+            overlays.forEach(overlay => ctx.appendOverlay(vscode.Uri.file(overlay)));
+        });
+
+        return this.reparse(ctx);
+    }
+
     async insertOverlays(...uris: vscode.Uri[]) {
         if (this.currCtx) {
-            uris.forEach(uri => this.currCtx.insertOverlay(uri));
+            // Each overlay is inserted in front of the others, so insert them backwards to keep their order:
+            [...uris].reverse().forEach(uri => this.currCtx.insertOverlay(uri));
             return this.reparse(this.currCtx);
         }
     }
@@ -1604,6 +2120,7 @@ export class Parser {
      * file list makes the context look the same as it did the first time when they're parsed.
      */
     private async reparse(ctx: DTSCtx) {
+        const timeStart = process.hrtime();
         ctx.parsing = true;
         this.isStable = false;
         const removed = ctx.reset();
@@ -1626,7 +2143,9 @@ export class Parser {
             }
         }
 
+        ctx.resolveOmitted();
         ctx.parsing = false;
+        this.output?.appendLine(`Reparsed ${ctx.name} in ${elapsed(timeStart)} ms`);
         this.isStable = true;
         while (this.waiters.length) {
             this.waiters.pop()();
@@ -1635,15 +2154,207 @@ export class Parser {
         this.changeEmitter.fire(ctx);
     }
 
+    /**
+     * Reparse a single node entry after an edit, leaving the rest of the context untouched.
+     *
+     * The innermost node entry that encloses the edit has its entire body parsed again, as long as its opening brace
+     * ends its first line and its closing brace starts its last line. The edit can't touch any preprocessor directives
+     * or inactive lines, and the body can't include other files. The entry's properties and child entries are replaced,
+     * while the nodes are kept, so that references from other files remain valid. Everything after the body is moved
+     * to make up for any added or removed lines.
+     *
+     * @returns Whether the edit was applied. If not, the entire context must be reparsed.
+     */
+    reparseEntry(ctx: DTSCtx, e: vscode.TextDocumentChangeEvent): boolean {
+        const timeStart = process.hrtime();
+        if (e.contentChanges.length !== 1) {
+            return false;
+        }
+
+        const uri = e.document.uri;
+        const change = e.contentChanges[0];
+        const files = ctx.files.filter(f => f.has(uri));
+        if (files.length !== 1 || files[0].plugin) {
+            return false;
+        }
+
+        const file = files[0];
+        const inFile = (loc: vscode.Location) => loc.uri.toString() === uri.toString();
+        const covers = (loc: vscode.Location, start: number, end = start) => inFile(loc) && loc.range.start.line <= end && loc.range.end.line >= start;
+        if ([...file.directives, ...file.inactive].some(loc => covers(loc, change.range.start.line, change.range.end.line))) {
+            return false;
+        }
+
+        // Index of each processed line in the file, which must only be included once:
+        const lineIdx = new Map<number, number>();
+        file.lines.forEach((l, i) => inFile(l.location) && lineIdx.set(l.number, lineIdx.has(l.number) ? -1 : i));
+        if (Array.from(lineIdx.values()).includes(-1)) {
+            return false;
+        }
+
+        const lineAt = (number: number) => file.lines[lineIdx.get(number)];
+        const braces = (entry: NodeEntry) => {
+            const header = lineAt(entry.loc.range.start.line);
+            const closing = lineAt(entry.loc.range.end.line);
+            if (header !== closing && header?.raw.trimEnd().endsWith('{') && closing?.raw.trimStart().startsWith('}')) {
+                return new vscode.Range(header.number, header.raw.trimEnd().length - 1, closing.number, closing.raw.length - closing.raw.trimStart().length);
+            }
+        };
+
+        const entry = file.entries
+            .filter(entry => inFile(entry.loc) && entry.loc.range.contains(change.range))
+            .sort((a, b) => b.loc.range.start.compareTo(a.loc.range.start))
+            .find(entry => {
+                const span = braces(entry);
+                return span && change.range.start.isAfter(span.start) && change.range.end.isBeforeOrEqual(span.end);
+            });
+        if (!entry) {
+            return false;
+        }
+
+        const span = braces(entry);
+        const header = lineAt(span.start.line);
+        const closing = lineAt(span.end.line);
+        const headerIdx = file.lines.indexOf(header);
+        const closingIdx = file.lines.indexOf(closing);
+        if (file.lines.slice(headerIdx, closingIdx).some(l => !inFile(l.location)) ||
+            Object.values(ctx.nodes).some(node => [node.deleted, node.omitIfNoRef].some(loc => loc && covers(loc, span.start.line, span.end.line)))) {
+            return false;
+        }
+
+        // Process the lines of the edited body like the preprocessor, reusing the lines outside the edit:
+        const delta = change.text.split('\n').length - 1 - (change.range.end.line - change.range.start.line);
+        const lastEdited = change.range.end.line + delta;
+        const oldNumber = (number: number) => (number < change.range.start.line) ? number : number - delta;
+        const processLine = (number: number, prev: Line, inComment: boolean) => {
+            const { text, inComment: next } = stripComments(e.document.lineAt(number).text, inComment);
+            if (number >= change.range.start.line && number <= lastEdited) {
+                if (text?.match(/^\s*#/)) {
+                    return;
+                }
+
+                const line = text ? new Line(text, number, uri, findReplacements(text, prev.defines ?? file.defines, new vscode.Location(uri, new vscode.Range(number, 0, number, text.length)))) : undefined;
+                if (line) {
+                    line.defines = prev.defines;
+                    line.origin = prev.origin && new vscode.Location(prev.origin.uri, new vscode.Position(prev.origin.range.start.line + number - prev.number, 0));
+                }
+
+                return { line, inComment: next };
+            }
+
+            const old = lineAt(oldNumber(number));
+            // Lines without any output are empty, comments, directives or inactive:
+            if (old ? old.raw !== text : text && ![...file.directives, ...file.inactive].some(loc => covers(loc, oldNumber(number)))) {
+                return;
+            }
+
+            return { line: (old?.number === number) ? old : old?.moveTo(number), inComment: next };
+        };
+
+        const processedHeader = processLine(span.start.line, header, false);
+        if (!processedHeader?.line?.raw.trimEnd().endsWith('{')) {
+            return false;
+        }
+
+        const lines = new Array<Line>();
+        let prev = processedHeader.line;
+        let inComment = processedHeader.inComment;
+        for (let number = span.start.line + 1; number < span.end.line + delta; number++) {
+            const processed = processLine(number, prev, inComment);
+            if (!processed) {
+                return false;
+            }
+
+            if (processed.line) {
+                lines.push(prev = processed.line);
+            }
+
+            inComment = processed.inComment;
+        }
+
+        const processedClosing = processLine(span.end.line + delta, prev, inComment);
+        const closingText = processedClosing?.line?.raw;
+        if (!closingText?.trimStart().startsWith('}') || closingText.length - closingText.trimStart().length !== span.end.character) {
+            return false;
+        }
+
+        if (lines.some(l => l.raw.match(/\/(delete-node|omit-if-no-ref|memreserve|plugin|dts-v\d+)\//))) {
+            return false;
+        }
+
+        // Parse the body into a scratch entry first, so the context is left alone if the structure changed:
+        const scratchFile = new DTSFile(file.uri, new DTSCtx());
+        const scratch = new NodeEntry(entry.loc, entry.node, entry.nameLoc, scratchFile, entry.number);
+        const state = new ParserState(file.uri, scratchFile.diags, lines, [...this.includes, ...ctx.includes]);
+        const nodeStack = [scratch];
+        if (this.parseStatements(scratchFile.ctx, scratchFile, state, nodeStack, entry.number + 1)) {
+            const loc = state.location();
+            state.pushDiag('Missing semicolon', vscode.DiagnosticSeverity.Error, loc);
+            state.pushSemicolonAction(loc);
+        }
+
+        // All new entries must be nested in the scratch entry:
+        const descendants = (entry: NodeEntry): NodeEntry[] => entry.children.flatMap(c => [c, ...descendants(c)]);
+        const oldEntries = descendants(entry);
+        const newEntries = descendants(scratch);
+        if (nodeStack.length !== 1 || scratchFile.entries.length !== newEntries.length) {
+            return false;
+        }
+
+        oldEntries.forEach(old => old.node.entries = old.node.entries.filter(other => other !== old));
+        file.entries = file.entries.filter(other => !oldEntries.includes(other));
+        oldEntries.filter(old => !old.node.entries.length && ctx.nodes[old.node.path] === old.node).forEach(old => delete ctx.nodes[old.node.path]);
+
+        // The entries are numbered in the order they appear:
+        file.entries.filter(other => other.number > entry.number + oldEntries.length).forEach(other => other.number += newEntries.length - oldEntries.length);
+
+        file.diags.remove(uri, new vscode.Range(span.start.line + 1, 0, span.end.line, 0));
+        file.moveLines(uri, span.end.line, delta);
+        file.lines.splice(headerIdx, closingIdx - headerIdx + 1, processedHeader.line, ...lines, processedClosing.line);
+
+        // Move the new entries into the context, reusing the nodes that still exist:
+        entry.children = scratch.children;
+        entry.properties = scratch.properties;
+        entry.children.forEach(child => child.parent = entry);
+        entry.properties.forEach(prop => prop.entry = entry);
+        newEntries.forEach(newEntry => {
+            let node = ctx.nodes[newEntry.node.path];
+            if (!node) {
+                node = newEntry.node;
+                node.parent = newEntry.parent.node;
+                node.entries = [];
+                ctx.nodes[node.path] = node;
+            }
+
+            newEntry.node = node;
+            newEntry.file = file;
+            node.entries.push(newEntry);
+        });
+
+        file.entries.splice(file.entries.indexOf(entry) + 1, 0, ...newEntries);
+        file.diags.merge(scratchFile.diags);
+        [entry, ...newEntries].forEach(updated => updated.node.type = ctx.types.nodeType(updated.node));
+        ctx.resolveOmitted();
+
+        this.output?.appendLine(`Reparsed ${entry.node.path} in ${path.basename(uri.fsPath)}:${change.range.start.line + 1} in ${elapsed(timeStart)} ms`);
+        this.changeEmitter.fire(ctx);
+        return true;
+    }
+
     private async onDidChange(e: vscode.TextDocumentChangeEvent) {
         if (!e.contentChanges.length) {
             return;
         }
 
+        this.cache.invalidate(e.document.uri);
+
+        const ctx = this.currCtx;
+        const reparsed = ctx && !ctx.parsing && !ctx.dirty.length && ctx.has(e.document.uri) && this.reparseEntry(ctx, e);
+
         // Postpone reparsing of other contexts until they're refocused:
-        [...this.appCtx, ...this.boardCtx].filter(ctx => ctx.has(e.document.uri)).forEach(ctx => ctx.dirty.push(e.document.uri)); // TODO: Filter duplicates?
+        this.contexts.filter(c => !(reparsed && c === ctx) && c.has(e.document.uri)).forEach(c => c.dirty.push(e.document.uri)); // TODO: Filter duplicates?
 
-        if (this.currCtx && !this.currCtx.parsing) {
+        if (this.currCtx && !this.currCtx.parsing && !reparsed) {
             this.reparse(this.currCtx);
         }
     }
@@ -1675,6 +2386,13 @@ export class Parser {
 
     async activate(ctx: vscode.ExtensionContext) {
         // ctx.subscriptions.push(vscode.workspace.onDidOpenTextDocument(doc => notActive(() => this.onDidOpen(doc))));
+
+        ctx.subscriptions.push(this.watchIncludes(vscode.workspace.createFileSystemWatcher('**/*.{dts,dtsi,overlay,h}')));
+        ctx.subscriptions.push(new vscode.Disposable(() => {
+            Object.values(this.includeWatchers).forEach(watcher => watcher.dispose());
+            this.includeWatchers = {};
+        }));
+
         ctx.subscriptions.push(vscode.workspace.onDidChangeTextDocument(doc => this.onDidChange(doc)));
         ctx.subscriptions.push(vscode.window.onDidChangeActiveTextEditor(e => this.onDidChangetextEditor(e)));
         ctx.subscriptions.push(vscode.workspace.onDidDeleteFiles(e => e.files.forEach(uri => {
@@ -1691,17 +2409,103 @@ export class Parser {
         return Promise.all(vscode.window.visibleTextEditors.map(e => this.onDidOpen(e.document)));
     }
 
+    private watchIncludes(watcher: vscode.FileSystemWatcher) {
+        watcher.onDidChange(uri => this.cache.invalidate(uri));
+        watcher.onDidDelete(uri => this.cache.invalidate(uri));
+        // New files may shadow existing files in the include paths:
+        watcher.onDidCreate(() => this.cache.clear());
+        return watcher;
+    }
+
+    /* The workspace watcher only covers the workspace folders, so the cached includes from Zephyr trees and include
+     * paths outside of it need their own watchers.
+     */
+    private watchIncludeDirs(dirs: string[]) {
+        dirs.map(dir => path.resolve(dir)).forEach(dir => {
+            const watched = Object.keys(this.includeWatchers).some(root => !path.relative(root, dir).startsWith('..'));
+            if (watched || vscode.workspace.getWorkspaceFolder(vscode.Uri.file(dir)) || !fs.existsSync(dir)) {
+                return;
+            }
+
+            this.includeWatchers[dir] = this.watchIncludes(vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(dir, '**/*.{dts,dtsi,overlay,h}')));
+        });
+    }
+
     private async parse(ctx: DTSCtx, doc: vscode.TextDocument): Promise<DTSFile> {
         const file = new DTSFile(doc.uri, ctx);
-        const processed = await preprocess(doc, {...this.defines, ...ctx.defines}, [...this.includes, ...ctx.includes], file.diags);
-        const state = new ParserState(doc.uri, file.diags, processed.lines);
+        const processed = await preprocess(doc, {...this.defines, ...ctx.defines}, [...this.includes, ...ctx.includes], file.diags, this.cache);
+        const state = new ParserState(doc.uri, file.diags, processed.lines, [...this.includes, ...ctx.includes]);
 
         file.processed = processed;
-        let entries = 0;
+        this.watchIncludeDirs([...this.includes, ...ctx.includes, ...processed.includes.map(include => path.dirname(include.dst.fsPath))]);
         const timeStart = process.hrtime();
         const nodeStack: NodeEntry[] = [];
+        const requireSemicolon = this.parseStatements(ctx, file, state, nodeStack);
+
+        if (nodeStack.length > 0) {
+            const loc = state.location();
+            const entry = nodeStack[nodeStack.length - 1];
+            entry.loc = new vscode.Location(entry.loc.uri, new vscode.Range(entry.loc.range.start, state.location().range.end));
+            console.error(`Unterminated node: ${nodeStack[nodeStack.length - 1].node.name}`);
+            state.pushDiag('Unterminated node', vscode.DiagnosticSeverity.Error, entry.nameLoc);
+            state.pushInsertAction('Close brackets', '\n' + nodeStack.map((_, i) => '\t'.repeat(i) + '};\n').reverse().join(''), loc).isPreferred = true;
+        }
+
+        if (requireSemicolon) {
+            state.pushDiag(`Expected semicolon`, vscode.DiagnosticSeverity.Error);
+            state.pushSemicolonAction();
+        }
+
+        const procTime = process.hrtime(timeStart);
+
+        console.log(`Parsed ${doc.uri.fsPath} in ${(procTime[0] * 1e9 + procTime[1]) / 1000000} ms`);
+        console.log(`Nodes: ${Object.keys(ctx.nodes).length} entries: ${Object.values(ctx.nodes).reduce((sum, n) => sum + n.entries.length, 0)}`);
+
+        // Resolve types:
+        let time = process.hrtime();
+        Object.values(ctx.nodes).forEach(node => {
+            if (!node.type?.valid) {
+                node.type = ctx.types.nodeType(node);
+            }
+        });
+        time = process.hrtime(time);
+        console.log(`Resolved types for ${file.uri.fsPath} in ${(time[0] * 1e9 + time[1]) / 1000000} ms`);
+        file.diags = state.diags;
+        return file;
+    }
+
+    /**
+     * Apply the __overlay__ entries of a fragment to the fragment's target, once the whole fragment is parsed.
+     */
+    private resolveFragment(ctx: DTSCtx, file: DTSFile, state: ParserState, fragment: NodeEntry) {
+        const { node, ref, target, targetPath } = fragmentTarget(ctx, fragment);
+        if (target && !node) {
+            state.pushDiag('Unknown overlay target', vscode.DiagnosticSeverity.Error, target.valueLoc);
+        } else if (targetPath && !node) {
+            state.pushDiag('Unknown overlay target path', vscode.DiagnosticSeverity.Error, targetPath.valueLoc);
+        } else if (!target && !targetPath) {
+            state.pushDiag('Fragment needs a target or target-path property', vscode.DiagnosticSeverity.Error, fragment.nameLoc);
+        }
+
+        const targetNode = node ?? new Node(ref);
+        file.entries.filter(entry => entry.fragment === fragment).forEach(entry => {
+            entry.ref = ref;
+            moveEntry(ctx, entry, targetNode);
+        });
+    }
+
+    /**
+     * Parse the statements in the parser state's lines into the given file.
+     *
+     * @param nodeStack Entries the statements are nested in. Updated as nodes are opened and closed.
+     * @param firstEntry Number of the first new node entry.
+     * @returns Whether the last statement still requires a semicolon.
+     */
+    private parseStatements(ctx: DTSCtx, file: DTSFile, state: ParserState, nodeStack: NodeEntry[], firstEntry = 0): boolean {
+        let entries = firstEntry;
         let requireSemicolon = false;
         let labels = new Array<string>();
+        let omitIfNoRef: vscode.Location;
         while (state.skipWhitespace()) {
             const blockComment = state.match(/^\/\*[\s\S]*?\*\//);
             if (blockComment) {
@@ -1731,6 +2535,12 @@ export class Parser {
                 continue;
             }
 
+            const omitDirective = state.match(/^\/omit-if-no-ref\//);
+            if (omitDirective) {
+                omitIfNoRef = state.location();
+                continue;
+            }
+
             const nameStart = state.freeze();
             const name = state.match(/^([#?\w,.+-]+)/);
             if (name) {
@@ -1740,6 +2550,36 @@ export class Parser {
                 state.skipWhitespace();
 
                 const nodeMatch = state.match(/^{/);
+                const parentEntry = nodeStack[nodeStack.length - 1];
+                if (nodeMatch && file.plugin && parentEntry?.node === ctx.root && !parentEntry.ref) {
+                    // Overlay fragments are containers for the target nodes, and aren't part of the tree themselves:
+                    const fragment = new NodeEntry(nameLoc, new Node(name[1], addr?.[1], ctx.root), nameLoc, file, entries++);
+                    fragment.parent = parentEntry;
+                    fragment.node.entries.push(fragment);
+                    file.fragments.push(fragment);
+                    nodeStack.push(fragment);
+                    labels = [];
+                    continue;
+                }
+
+                if (nodeMatch && file.fragments.includes(parentEntry)) {
+                    if (name[1] !== '__overlay__') {
+                        state.pushDiag('Fragments can only contain __overlay__ nodes', vscode.DiagnosticSeverity.Warning, nameLoc);
+                    }
+
+                    // The target may come after the __overlay__ node, in which case the entry is moved to it when the fragment is closed:
+                    const { node, ref } = fragmentTarget(ctx, parentEntry);
+                    const entry = new NodeEntry(nameLoc, node ?? new Node(ref), nameLoc, file, entries++);
+                    entry.labels.push(...labels);
+                    entry.ref = ref;
+                    entry.fragment = parentEntry;
+                    entry.node.entries.push(entry);
+                    file.entries.push(entry);
+                    nodeStack.push(entry);
+                    labels = [];
+                    continue;
+                }
+
                 if (nodeMatch) {
                     let node = new Node(name[1],
                         addr?.[1],
@@ -1751,6 +2591,11 @@ export class Parser {
                         ctx.nodes[node.path] = node;
                     }
 
+                    if (omitIfNoRef) {
+                        node.omitIfNoRef = omitIfNoRef;
+                        omitIfNoRef = undefined;
+                    }
+
                     const entry = new NodeEntry(nameLoc, node, nameLoc, file, entries++);
 
                     entry.labels.push(...labels);
@@ -1782,6 +2627,11 @@ export class Parser {
 
                 requireSemicolon = true;
 
+                if (omitIfNoRef) {
+                    state.pushDiag('Expected node after /omit-if-no-ref/', vscode.DiagnosticSeverity.Error, omitIfNoRef);
+                    omitIfNoRef = undefined;
+                }
+
                 if (addr) {
                     state.pushDiag(`Only nodes have addresses. Expecting opening node block`, vscode.DiagnosticSeverity.Warning, nameLoc);
                     continue;
@@ -1818,6 +2668,20 @@ export class Parser {
                 state.skipWhitespace();
 
                 const isNode = state.match(/^{/);
+                if (!isNode && omitIfNoRef && nodeStack.length === 0) {
+                    // Marking an existing node, like /omit-if-no-ref/ &label;
+                    requireSemicolon = true;
+                    const node = ctx.node(refMatch[1]);
+                    if (node) {
+                        node.omitIfNoRef = omitIfNoRef;
+                    } else {
+                        state.pushDiag('Unknown label', vscode.DiagnosticSeverity.Error, refLoc);
+                    }
+
+                    omitIfNoRef = undefined;
+                    continue;
+                }
+
                 if (!isNode) {
                     state.pushDiag('References can only be made to nodes');
                     continue;
@@ -1829,6 +2693,11 @@ export class Parser {
                     node = new Node(refMatch[1]);
                 }
 
+                if (omitIfNoRef) {
+                    node.omitIfNoRef = omitIfNoRef;
+                    omitIfNoRef = undefined;
+                }
+
                 const entry = new NodeEntry(refLoc, node, refLoc, file, entries++);
                 entry.labels.push(...labels);
                 node.entries.push(entry);
@@ -1848,12 +2717,54 @@ export class Parser {
                 labels = [];
             }
 
+            if (omitIfNoRef) {
+                state.pushDiag('Expected node after /omit-if-no-ref/', vscode.DiagnosticSeverity.Error, omitIfNoRef);
+                omitIfNoRef = undefined;
+            }
+
             const versionDirective = state.match(/^\/dts-v.+?\/\s*/);
             if (versionDirective) {
                 requireSemicolon = true;
                 continue;
             }
 
+            const pluginDirective = state.match(/^\/plugin\//);
+            if (pluginDirective) {
+                requireSemicolon = true;
+                if (file.entries.length) {
+                    state.pushDiag('/plugin/ must come before any nodes');
+                    continue;
+                }
+
+                file.plugin = true;
+                continue;
+            }
+
+            const memreserveStart = state.freeze();
+            const memreserve = state.match(/^\/memreserve\//);
+            if (memreserve) {
+                requireSemicolon = true;
+                const directiveLoc = state.location(memreserveStart);
+
+                // Consume the operands even if the directive is misplaced, to avoid cascading errors:
+                state.skipWhitespace();
+                const addr = IntValue.match(state) ?? Expression.match(state);
+                state.skipWhitespace();
+                const size = addr && (IntValue.match(state) ?? Expression.match(state));
+                if (nodeStack.length) {
+                    state.pushDiag('Memory reservations must be outside nodes', vscode.DiagnosticSeverity.Error, directiveLoc);
+                    continue;
+                }
+
+                if (!size) {
+                    state.pushDiag('Expected address and size');
+                    continue;
+                }
+
+                file.memreserves.push({ addr, size, loc: state.location(memreserveStart) });
+                continue;
+            }
+
             const deleteNode = state.match(/^\/delete-node\//);
             if (deleteNode) {
                 state.skipWhitespace();
@@ -1927,6 +2838,9 @@ export class Parser {
                 if (nodeStack.length > 0) {
                     const entry = nodeStack.pop();
                     entry.loc = new vscode.Location(entry.loc.uri, new vscode.Range(entry.loc.range.start, state.location().range.end));
+                    if (file.fragments.includes(entry)) {
+                        this.resolveFragment(ctx, file, state, entry);
+                    }
                 } else {
                     state.pushDiag('Unexpected closing bracket');
                     state.pushDeleteAction('Delete unnecessary closing bracket').isPreferred = true;
@@ -1941,41 +2855,12 @@ export class Parser {
             state.pushDeleteAction('Delete invalid token').isPreferred = true;
         }
 
-        if (nodeStack.length > 0) {
-            const loc = state.location();
-            const entry = nodeStack[nodeStack.length - 1];
-            entry.loc = new vscode.Location(entry.loc.uri, new vscode.Range(entry.loc.range.start, state.location().range.end));
-            console.error(`Unterminated node: ${nodeStack[nodeStack.length - 1].node.name}`);
-            state.pushDiag('Unterminated node', vscode.DiagnosticSeverity.Error, entry.nameLoc);
-            state.pushInsertAction('Close brackets', '\n' + nodeStack.map((_, i) => '\t'.repeat(i) + '};\n').reverse().join(''), loc).isPreferred = true;
-        }
-
-        if (requireSemicolon) {
-            state.pushDiag(`Expected semicolon`, vscode.DiagnosticSeverity.Error);
-            state.pushSemicolonAction();
-        }
-
-        const procTime = process.hrtime(timeStart);
-
-        console.log(`Parsed ${doc.uri.fsPath} in ${(procTime[0] * 1e9 + procTime[1]) / 1000000} ms`);
-        console.log(`Nodes: ${Object.keys(ctx.nodes).length} entries: ${Object.values(ctx.nodes).reduce((sum, n) => sum + n.entries.length, 0)}`);
-
-        // Resolve types:
-        let time = process.hrtime();
-        Object.values(ctx.nodes).forEach(node => {
-            if (!node.type?.valid) {
-                node.type = this.types.nodeType(node);
-            }
-        });
-        time = process.hrtime(time);
-        console.log(`Resolved types for ${file.uri.fsPath} in ${(time[0] * 1e9 + time[1]) / 1000000} ms`);
-        file.diags = state.diags;
-        return file;
+        return requireSemicolon;
     }
 }
 
-export function getCells(propName: string, parent?: Node): string[] | undefined {
-    const cellProp = getPHandleCells(propName, parent);
+export function getCells(propName: string, parent?: Node, space?: string): string[] | undefined {
+    const cellProp = getPHandleCells(propName, parent, space);
 
     if (cellProp) {
         return ['label'].concat(Array(<number> cellProp.value[0].val).fill('cell'));
@@ -1988,7 +2873,21 @@ export function getCells(propName: string, parent?: Node): string[] | undefined
     }
 }
 
-export function cellName(propname: string) {
+/** Combine the cells of a multi-cell number, like a 64-bit address, into a single value */
+export function cellsValue(cells: IntValue[]): bigint {
+    return cells.reduce((val, cell) => (val << BigInt(32)) | BigInt.asUintN(32, cell.bigVal), BigInt(0));
+}
+
+/**
+ * Name of the property that determines the cell count of the given property's entries, like gpio-cells for foo-gpios.
+ *
+ * @param space Specifier space from the property's binding, which takes precedence over the property name.
+ */
+export function cellName(propname: string, space?: string) {
+    if (space) {
+        return space + '-cells';
+    }
+
     if (propname.endsWith('s')) {
         /* Weird rule: phandle array cell count is determined by the #XXX-cells entry in the parent,
          * where XXX is the singular version of the name of this property UNLESS the property is called XXX-gpios, in which
@@ -2006,6 +2905,6 @@ export function cellName(propname: string) {
     }
 }
 
-export function getPHandleCells(propname: string, parent: Node): Property {
-    return parent?.property('#' + cellName(propname));
+export function getPHandleCells(propname: string, parent: Node, space?: string): Property {
+    return parent?.property('#' + cellName(propname, space));
 }
\ No newline at end of file
@@ -0,0 +1,374 @@
+/*
+ * Copyright (c) 2020 Trond Snekvik
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+/*
+ * Evaluator for C integer constant expressions, as used in preprocessor conditions and DeviceTree property values.
+ *
+ * Values are evaluated as 64 bit integers, like intmax_t and uintmax_t in preprocessor conditions.
+ */
+
+type TokenKind = 'number' | 'char' | 'identifier' | 'operator' | 'eof';
+type Token = { kind: TokenKind, text: string, start: number, end: number, value?: Value };
+type Value = { val: bigint, unsigned: boolean };
+
+const BITS = 64;
+const INTMAX = (BigInt(1) << BigInt(BITS - 1)) - BigInt(1);
+const UINTMAX = (BigInt(1) << BigInt(BITS)) - BigInt(1);
+
+const operators = ['<<', '>>', '<=', '>=', '==', '!=', '&&', '||', '+', '-', '*', '/', '%', '<', '>', '&', '|', '^', '~', '!', '?', ':', '(', ')'];
+
+const binaryPrecedence: { [op: string]: number } = {
+    '||': 1,
+    '&&': 2,
+    '|': 3,
+    '^': 4,
+    '&': 5,
+    '==': 6, '!=': 6,
+    '<': 7, '>': 7, '<=': 7, '>=': 7,
+    '<<': 8, '>>': 8,
+    '+': 9, '-': 9,
+    '*': 10, '/': 10, '%': 10,
+};
+
+const escapes: { [char: string]: number } = {
+    'a': 7, 'b': 8, 't': 9, 'n': 10, 'v': 11, 'f': 12, 'r': 13, 'e': 27,
+};
+
+/** Error in an expression, with the range of the offending text as offsets into the expression. */
+export class ExpressionError extends Error {
+    start: number;
+    end: number;
+
+    constructor(message: string, start: number, end: number) {
+        super(message);
+        this.start = start;
+        this.end = end;
+    }
+}
+
+export type ExpressionOptions = {
+    /** Evaluate unknown identifiers as 0, like the preprocessor does for undefined macros. */
+    identifiersAsZero?: boolean;
+};
+
+function int(val: bigint | boolean, unsigned = false): Value {
+    if (typeof val === 'boolean') {
+        val = BigInt(val ? 1 : 0);
+    }
+
+    return { val: unsigned ? BigInt.asUintN(BITS, val) : BigInt.asIntN(BITS, val), unsigned };
+}
+
+function parseNumber(text: string, start: number): Value {
+    const m = text.match(/^(?:(0[xX])([\da-fA-F]+)|(0[bB])([01]+)|(\d*\.\d*(?:[eE][+-]?\d+)?|\d+[eE][+-]?\d+)|(\d+))(\w*)$/);
+    if (!m || m[5] === '.') {
+        throw new ExpressionError(`Invalid number "${text}"`, start, start + text.length);
+    }
+
+    // Floating point constants aren't allowed in preprocessor conditions or DeviceTree cells:
+    if (m[5] !== undefined) {
+        throw new ExpressionError(`Floating constant "${text}" in integer expression`, start, start + text.length);
+    }
+
+    const suffix = m[7];
+    const suffixStart = start + text.length - suffix.length;
+
+    if (!suffix.match(/^(u?(l|ll)?|(l|ll)u)$/i)) {
+        throw new ExpressionError(`Invalid suffix "${suffix}" on integer constant`, suffixStart, start + text.length);
+    }
+
+    let val: bigint;
+    if (m[2] !== undefined) {
+        val = BigInt('0x' + m[2]);
+    } else if (m[4] !== undefined) {
+        val = BigInt('0b' + m[4]);
+    } else if (m[6].length > 1 && m[6].startsWith('0')) {
+        if (m[6].match(/[89]/)) {
+            throw new ExpressionError(`Invalid digit in octal constant`, start, suffixStart);
+        }
+
+        val = BigInt('0o' + m[6]);
+    } else {
+        val = BigInt(m[6]);
+    }
+
+    if (val > UINTMAX) {
+        throw new ExpressionError(`Integer constant is too large for its type`, start, start + text.length);
+    }
+
+    // Constants that don't fit in the signed type are unsigned. Strictly, this only applies to hexadecimal and octal constants,
+    // but GCC treats large decimal constants the same way, with a warning:
+    return int(val, !!suffix.match(/u/i) || val > INTMAX);
+}
+
+function parseChar(text: string, start: number): Value {
+    const m = text.match(/^'(?:\\(?:x([\da-fA-F]+)|([0-7]{1,3})|(.))|([^\\']))'$/);
+    if (!m) {
+        throw new ExpressionError(`Invalid character constant ${text}`, start, start + text.length);
+    }
+
+    if (m[1] !== undefined) {
+        return int(BigInt(parseInt(m[1], 16) & 0xff));
+    }
+
+    if (m[2] !== undefined) {
+        return int(BigInt(parseInt(m[2], 8) & 0xff));
+    }
+
+    if (m[3] !== undefined) {
+        return int(BigInt(escapes[m[3]] ?? m[3].charCodeAt(0)));
+    }
+
+    return int(BigInt(m[4].charCodeAt(0)));
+}
+
+function tokenize(text: string): Token[] {
+    const tokens = new Array<Token>();
+    let offset = 0;
+    while (offset < text.length) {
+        const rest = text.slice(offset);
+        const whitespace = rest.match(/^\s+/);
+        if (whitespace) {
+            offset += whitespace[0].length;
+            continue;
+        }
+
+        let m = rest.match(/^(?:\d|\.\d)[\w.]*(?:(?<=[eE])[+-][\w.]*)?/);
+        if (m) {
+            tokens.push({ kind: 'number', text: m[0], start: offset, end: offset + m[0].length, value: parseNumber(m[0], offset) });
+            offset += m[0].length;
+            continue;
+        }
+
+        m = rest.match(/^'(?:\\.|[^\\'])*'?/);
+        if (m) {
+            tokens.push({ kind: 'char', text: m[0], start: offset, end: offset + m[0].length, value: parseChar(m[0], offset) });
+            offset += m[0].length;
+            continue;
+        }
+
+        m = rest.match(/^[a-zA-Z_]\w*/);
+        if (m) {
+            tokens.push({ kind: 'identifier', text: m[0], start: offset, end: offset + m[0].length });
+            offset += m[0].length;
+            continue;
+        }
+
+        const op = operators.find(op => rest.startsWith(op));
+        if (op) {
+            tokens.push({ kind: 'operator', text: op, start: offset, end: offset + op.length });
+            offset += op.length;
+            continue;
+        }
+
+        throw new ExpressionError(`Unexpected character '${rest[0]}'`, offset, offset + 1);
+    }
+
+    tokens.push({ kind: 'eof', text: '', start: text.length, end: text.length });
+    return tokens;
+}
+
+class ExpressionParser {
+    private tokens: Token[];
+    private i = 0;
+    private options: ExpressionOptions;
+
+    constructor(text: string, options: ExpressionOptions) {
+        this.tokens = tokenize(text);
+        this.options = options;
+    }
+
+    private get next() {
+        return this.tokens[this.i];
+    }
+
+    private take(...ops: string[]): Token | undefined {
+        if (this.next.kind === 'operator' && ops.includes(this.next.text)) {
+            return this.tokens[this.i++];
+        }
+    }
+
+    private unexpected(token: Token): ExpressionError {
+        if (token.kind === 'eof') {
+            return new ExpressionError('Expected expression', token.start, token.end);
+        }
+
+        return new ExpressionError(`Unexpected ${token.text}`, token.start, token.end);
+    }
+
+    parse(): Value {
+        const value = this.ternary(false);
+        if (this.next.kind !== 'eof') {
+            throw this.unexpected(this.next);
+        }
+
+        return value;
+    }
+
+    /** Evaluate a conditional expression. Skipped subexpressions are parsed, but don't report evaluation errors. */
+    private ternary(skip: boolean): Value {
+        const condition = this.binary(1, skip);
+        const question = this.take('?');
+        if (!question) {
+            return condition;
+        }
+
+        const isTrue = condition.val !== BigInt(0);
+        const a = this.ternary(skip || !isTrue);
+        if (!this.take(':')) {
+            throw new ExpressionError(`Expected : in conditional expression`, this.next.start, this.next.end);
+        }
+
+        const b = this.ternary(skip || isTrue);
+        return int(isTrue ? a.val : b.val, a.unsigned || b.unsigned);
+    }
+
+    private binary(minPrecedence: number, skip: boolean): Value {
+        let left = this.unary(skip);
+        while (this.next.kind === 'operator' && binaryPrecedence[this.next.text] >= minPrecedence) {
+            const op = this.tokens[this.i++];
+            const precedence = binaryPrecedence[op.text];
+            const shortCircuit = (op.text === '&&' && left.val === BigInt(0)) || (op.text === '||' && left.val !== BigInt(0));
+            const rightStart = this.next;
+            const right = this.binary(precedence + 1, skip || shortCircuit);
+            left = this.apply(op, left, right, rightStart, skip);
+        }
+
+        return left;
+    }
+
+    private apply(op: Token, left: Value, right: Value, rightStart: Token, skip: boolean): Value {
+        const rightEnd = this.tokens[this.i - 1].end;
+
+        // Usual arithmetic conversions:
+        const unsigned = left.unsigned || right.unsigned;
+        const a = int(left.val, unsigned).val;
+        const b = int(right.val, unsigned).val;
+
+        switch (op.text) {
+        case '||':
+            return int(left.val !== BigInt(0) || right.val !== BigInt(0));
+        case '&&':
+            return int(left.val !== BigInt(0) && right.val !== BigInt(0));
+        case '|':
+            return int(a | b, unsigned);
+        case '^':
+            return int(a ^ b, unsigned);
+        case '&':
+            return int(a & b, unsigned);
+        case '==':
+            return int(a === b);
+        case '!=':
+            return int(a !== b);
+        case '<':
+            return int(a < b);
+        case '>':
+            return int(a > b);
+        case '<=':
+            return int(a <= b);
+        case '>=':
+            return int(a >= b);
+        case '<<':
+        case '>>':
+            // The result has the type of the left operand:
+            if (right.val < BigInt(0) || right.val >= BigInt(BITS)) {
+                if (skip) {
+                    return int(BigInt(0), left.unsigned);
+                }
+
+                throw new ExpressionError(`Shift count must be between 0 and ${BITS - 1}`, rightStart.start, rightEnd);
+            }
+
+            if (op.text === '<<') {
+                return int(left.val << right.val, left.unsigned);
+            }
+
+            // Right shifting a negative value is implementation defined, but is an arithmetic shift in GCC:
+            return int(left.val >> right.val, left.unsigned);
+        case '+':
+            return int(a + b, unsigned);
+        case '-':
+            return int(a - b, unsigned);
+        case '*':
+            return int(a * b, unsigned);
+        case '/':
+        case '%':
+            if (b === BigInt(0)) {
+                if (skip) {
+                    return int(BigInt(0), unsigned);
+                }
+
+                throw new ExpressionError(`Division by zero`, rightStart.start, rightEnd);
+            }
+
+            // BigInt division truncates towards zero, like C:
+            return int(op.text === '/' ? a / b : a % b, unsigned);
+        }
+    }
+
+    private unary(skip: boolean): Value {
+        const op = this.take('+', '-', '~', '!');
+        if (op) {
+            const value = this.unary(skip);
+            switch (op.text) {
+            case '+':
+                return value;
+            case '-':
+                return int(-value.val, value.unsigned);
+            case '~':
+                return int(~value.val, value.unsigned);
+            case '!':
+                return int(value.val === BigInt(0));
+            }
+        }
+
+        return this.primary(skip);
+    }
+
+    private primary(skip: boolean): Value {
+        const token = this.next;
+        if (token.kind === 'number' || token.kind === 'char') {
+            this.i++;
+            return token.value;
+        }
+
+        if (token.kind === 'identifier') {
+            if (this.options.identifiersAsZero) {
+                this.i++;
+                return int(BigInt(0));
+            }
+
+            throw new ExpressionError(`Unknown identifier ${token.text}`, token.start, token.end);
+        }
+
+        const open = this.take('(');
+        if (open) {
+            const value = this.ternary(skip);
+            if (!this.take(')')) {
+                if (this.next.kind === 'eof') {
+                    throw new ExpressionError(`Missing terminating )`, open.start, open.end);
+                }
+
+                throw this.unexpected(this.next);
+            }
+
+            return value;
+        }
+
+        throw this.unexpected(token);
+    }
+}
+
+/**
+ * Evaluate a C integer constant expression.
+ *
+ * Unsigned results are returned as positive values, and signed results keep their sign.
+ *
+ * @throws ExpressionError with the offset of the offending text if the expression is invalid.
+ */
+export function evaluate(text: string, options: ExpressionOptions = {}): bigint {
+    return new ExpressionParser(text, options).parse().val;
+}
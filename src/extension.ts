@@ -9,12 +9,15 @@ import * as dts from './dts';
 import * as types from './types';
 import * as zephyr from './zephyr';
 import {lint, LintCtx} from './lint';
+import { lintBindings } from './bindingLint';
+import { BindingProvider, bindingChainText, propertySourcesText } from './bindingNavigation';
 import * as path from 'path';
 import { DiagnosticsSet } from './diags';
 import { existsSync, readFile, writeFile, writeFileSync } from 'fs';
 import { DTSTreeView } from './treeView';
-import { capitalize } from './util';
+import { capitalize, countText } from './util';
 import { DTSDocumentProvider } from './compiledOutput';
+import { MacroExpansionProvider } from './macroExpansion';
 
 const config = vscode.workspace.getConfiguration('devicetree');
 
@@ -26,12 +29,12 @@ function getConfig(variable: string) {
     return undefined;
 }
 
-function getBindingDirs(): string[] {
+function getBindingDirs(installation?: zephyr.Installation): string[] {
     const dirs = getConfig('bindings') as string[];
     return dirs.map(d => {
         return d.replace(/\${(.*?)}/g, (original, name: string) => {
             if (name === 'workspaceFolder') {
-                return vscode.workspace.workspaceFolders?.[0].uri.fsPath ?? vscode.env.appRoot;
+                return (installation?.folders[0] ?? vscode.workspace.workspaceFolders?.[0])?.uri.fsPath ?? vscode.env.appRoot;
             }
 
             if (name.startsWith('workspaceFolder:')) {
@@ -40,7 +43,7 @@ function getBindingDirs(): string[] {
             }
 
             if (['zephyr_base', 'zephyrbase'].includes(name.toLowerCase())) {
-                return zephyr.zephyrRoot ?? original;
+                return installation?.root ?? original;
             }
 
             return original;
@@ -55,7 +58,7 @@ function appendPropSnippet(p: types.PropertyType, snippet: vscode.SnippetString,
             break;
         case 'array': {
             snippet.appendText(p.name + ' = < ');
-            const cells = dts.getCells(p.name, node?.parent);
+            const cells = dts.getCells(p.name, node?.parent, p['specifier-space']);
             if (cells) {
                 cells.forEach((c, i) => {
                     if (node && i === 0 && p.name === 'reg' && !isNaN(node.address)) {
@@ -126,6 +129,117 @@ function toCIdentifier(name: string) {
     return name.toLowerCase().replace(/[@,-]/g, '_').replace(/[#&]/g, '');
 }
 
+/** Zephyr devicetree.h macro referring to the node */
+export function nodeMacro(ctx: dts.DTSCtx, node: dts.Node): string {
+    const labels = node.labels();
+    if (labels.length) {
+        return `DT_NODELABEL(${toCIdentifier(labels[0])})`;
+    }
+
+    const alias = ctx.node('/aliases/')?.properties().find(p => p.pHandle?.is(node));
+    if (alias) {
+        return `DT_ALIAS(${toCIdentifier(alias.name)})`;
+    }
+
+    const chosen = ctx.node('/chosen/')?.properties().find(p => p.pHandle?.is(node));
+    if (chosen) {
+        return `DT_CHOSEN(${toCIdentifier(chosen.name)})`;
+    }
+
+    if (node.parent) {
+        const parent = nodeMacro(ctx, node.parent);
+
+        // better to do DT_PATH(a, b, c) than DT_CHILD(DT_CHILD(a, b), c)
+        if (!parent.startsWith('DT_NODELABEL(')) {
+            return `DT_PATH(${toCIdentifier(node.path.slice(1, node.path.length - 1).replace(/\//g, ', '))})`;
+        }
+
+        return `DT_CHILD(${parent}, ${toCIdentifier(node.fullName)})`;
+    }
+
+    return `DT_ROOT`;
+}
+
+/** Zephyr devicetree.h macro referring to the selected part of the property */
+export function propertyMacro(ctx: dts.DTSCtx, prop: dts.Property, selection: vscode.Range, uri: vscode.Uri): string | undefined {
+    // Selecting the property name
+    if (prop.loc.range.contains(selection)) {
+        if (prop.name === 'label') {
+            return `DT_LABEL(${nodeMacro(ctx, prop.node)})`;
+        }
+
+        // Not generated for properties like #gpio-cells
+        if (prop.name.startsWith('#')) {
+            return;
+        }
+
+        return `DT_PROP(${nodeMacro(ctx, prop.node)}, ${toCIdentifier(prop.name)})`;
+    }
+
+    // Selecting a phandle. Should return the property reference, not the node or cell that's being pointed to,
+    // so that if the value changes, the reference will still be valid.
+    const val = prop.valueAt(selection.start, uri);
+    if (val instanceof dts.ArrayValue) {
+        const cell = val.cellAt(selection.start, uri);
+
+        // Entries named in the companion *-names property can be referred to by name:
+        const entries = prop.entries ?? [];
+        const entryIdx = entries.findIndex(e => e.target === cell || e.cells.includes(cell as dts.IntValue));
+        const entryName = prop.valueNames()[entryIdx];
+        if (entryName && cell instanceof dts.PHandle) {
+            return `DT_PHANDLE_BY_NAME(${nodeMacro(ctx, prop.node)}, ${toCIdentifier(prop.name)}, ${toCIdentifier(entryName)})`;
+        }
+
+        if (entryName) {
+            const entry = entries[entryIdx];
+            const cellNames = ctx.node(entry.target.val)?.type?.cells(dts.cellName(prop.name, prop.specifierSpace));
+            const cellName = cellNames?.[entry.cells.indexOf(cell as dts.IntValue)];
+            if (cellName) {
+                return `DT_PHA_BY_NAME(${nodeMacro(ctx, prop.node)}, ${toCIdentifier(prop.name)}, ${toCIdentifier(entryName)}, ${toCIdentifier(cellName)})`;
+            }
+        }
+
+        if (cell instanceof dts.PHandle) {
+            if (prop.value.length > 1) {
+                return `DT_PHANDLE_BY_IDX(${nodeMacro(ctx, prop.node)}, ${toCIdentifier(prop.name)}, ${prop.value.indexOf(val)})`;
+            }
+
+            return `DT_PHANDLE(${nodeMacro(ctx, prop.node)}, ${toCIdentifier(prop.name)})`;
+        }
+
+        if (prop.name === 'reg') {
+            const valIdx = prop.value.indexOf(val);
+            const cellIdx = val.val.indexOf(cell);
+            const names = prop.cellNames(ctx);
+            if (names?.length) {
+                const name = names?.[valIdx % names.length]?.[cellIdx];
+                if (name) {
+                    if (prop.regs?.length === 1) {
+                        // Name is either size or addr
+                        return `DT_REG_${name.toUpperCase()}(${nodeMacro(ctx, prop.node)})`;
+                    }
+
+                    // Name is either size or addr
+                    return `DT_REG_${name.toUpperCase()}_BY_IDX(${nodeMacro(ctx, prop.node)}, ${valIdx})`;
+                }
+            }
+        }
+
+        if (val.isNumberArray()) {
+            const cellIdx = val.val.indexOf(cell);
+            return `DT_PROP_BY_IDX(${nodeMacro(ctx, prop.node)}, ${prop.name}, ${cellIdx})`;
+        }
+
+        const names = prop.cellNames(ctx);
+        if (names?.length) {
+            const idx = val.val.indexOf(cell);
+            if (idx >= 0) {
+                return `DT_PROP(${nodeMacro(ctx, prop.node)}, ${toCIdentifier(prop.name)})`;
+            }
+        }
+    }
+}
+
 class CSupport implements vscode.CompletionItemProvider {
     parser: dts.Parser;
 
@@ -195,7 +309,7 @@ class CSupport implements vscode.CompletionItemProvider {
     }
 }
 
-type StoredCtx = { name: string, boardFile: string, overlays: string[], board: zephyr.Board };
+type StoredCtx = { name: string, boardFile: string, overlays: string[], board: zephyr.Board, buildDir?: string, snippets?: string[] };
 
 class DTSEngine implements
     vscode.DocumentSymbolProvider,
@@ -207,27 +321,34 @@ class DTSEngine implements
     vscode.DocumentRangeFormattingEditProvider,
     vscode.DocumentLinkProvider,
     vscode.ReferenceProvider,
-    vscode.TypeDefinitionProvider {
+    vscode.TypeDefinitionProvider,
+    vscode.FoldingRangeProvider,
+    vscode.CodeLensProvider {
     parser: dts.Parser;
     diags: vscode.DiagnosticCollection;
     diagSet?: DiagnosticsSet;
-    types: types.TypeLoader;
+    /** Bindings of each Zephyr installation */
+    types = new Map<zephyr.Installation, types.TypeLoader>();
+    private bindingWatchers = new Array<vscode.FileSystemWatcher>();
     prevDiagUris: vscode.Uri[] = [];
     treeView: DTSTreeView;
     cSupport: CSupport;
     compiledDocProvider: DTSDocumentProvider;
+    macroExpansions: MacroExpansionProvider;
+    bindings: BindingProvider;
+    inactiveDecoration: vscode.TextEditorDecorationType;
 
-    constructor() {
+    constructor(output: vscode.OutputChannel) {
         this.diags = vscode.languages.createDiagnosticCollection('DeviceTree');
-        this.types = new types.TypeLoader();
+        this.inactiveDecoration = vscode.window.createTextEditorDecorationType({ opacity: '0.5', isWholeLine: true });
 
         const defines = (getConfig('deviceTree.defines') ?? {}) as {[name: string]: string};
 
-        this.parser = new dts.Parser(defines, [], this.types);
+        this.parser = new dts.Parser(defines, [], installation => this.typeLoader(installation), output);
         this.parser.onChange(ctx => {
             const lintCtx: LintCtx =  {
                 diags: new DiagnosticsSet(),
-                types: this.types,
+                types: ctx.types,
                 ctx,
                 gpioControllers: [],
                 labels: {},
@@ -236,7 +357,9 @@ class DTSEngine implements
             lint(lintCtx);
             const diags = ctx.getDiags();
             diags.merge(lintCtx.diags);
+            this.addOrigins(ctx, diags);
             this.setDiags(diags);
+            this.updateInactive(vscode.window.visibleTextEditors);
         });
 
         this.parser.onOpen(() => {
@@ -250,6 +373,8 @@ class DTSEngine implements
         this.treeView = new DTSTreeView(this.parser);
         this.cSupport = new CSupport(this.parser);
         this.compiledDocProvider = new DTSDocumentProvider(this.parser);
+        this.macroExpansions = new MacroExpansionProvider();
+        this.bindings = new BindingProvider(() => Array.from(this.types.values()));
     }
 
     /** Returns all pHandle references to the node under cursor.  */
@@ -307,7 +432,14 @@ class DTSEngine implements
         await Promise.all(json.map(ctx => {
             if (!ctxNames.includes(ctx.name)) {
                 ctxNames.push(ctx.name); // don't load duplicates
-                return this.parser.addContext(ctx.board ?? vscode.Uri.file(ctx.boardFile), ctx.overlays.map(o => vscode.Uri.file(o)), ctx.name);
+                return this.parser.addContext(ctx.board ?? vscode.Uri.file(ctx.boardFile), ctx.overlays.map(o => vscode.Uri.file(o)), ctx.name).then(added => {
+                    if (added) {
+                        added.buildDir = ctx.buildDir;
+                        if (ctx.snippets?.length) {
+                            return this.parser.addSnippets(added, ...ctx.snippets);
+                        }
+                    }
+                });
             }
         }));
     }
@@ -332,7 +464,15 @@ class DTSEngine implements
             return;
         }
 
-        const json = this.parser.contexts.map(ctx => ({name: ctx.name, boardFile: ctx.boardFile.uri.fsPath, overlays: ctx.overlays.map(o => o.uri.fsPath), board: ctx.board}));
+        // The snippets' overlays are added back when the snippets are loaded:
+        const json = this.parser.contexts.map(ctx => <StoredCtx>{
+            name: ctx.name,
+            boardFile: ctx.boardFile.uri.fsPath,
+            overlays: ctx.overlays.filter(o => !ctx.snippet(o)).map(o => o.uri.fsPath),
+            board: ctx.board,
+            buildDir: ctx.buildDir,
+            snippets: ctx.snippets.map(snippet => snippet.name),
+        });
         writeFile(uri.fsPath, JSON.stringify(json, null, '\t'), err => {
             if (err) {
                 vscode.window.showErrorMessage('Failed storing config: ' + err);
@@ -343,12 +483,86 @@ class DTSEngine implements
         });
     }
 
-    async activate(ctx: vscode.ExtensionContext) {
+    /** Create or update the contexts of the images in a Zephyr build directory. */
+    async importBuild(dir: string) {
+        const builds = zephyr.installation(vscode.Uri.file(dir))?.readBuild(dir) ?? [];
+        const ctxs = await Promise.all(builds.map(async build => {
+            const existing = this.parser.contexts.find(ctx => ctx.buildDir === build.dir);
+            if (existing?.boardFile?.uri.fsPath === build.board.path &&
+                existing.overlays.map(o => o.uri.fsPath).join('\n') === build.overlays.join('\n')) {
+                return existing;
+            }
+
+            if (existing) {
+                this.parser.removeCtx(existing);
+            }
+
+            const ctx = await this.parser.addContext(build.board, build.overlays.map(o => vscode.Uri.file(o)), existing?.name ?? build.name);
+            if (ctx) {
+                ctx.buildDir = build.dir;
+            }
+
+            return ctx;
+        }));
+
+        if (builds.length) {
+            this.saveCtxs();
+        }
+
+        return ctxs.filter(ctx => ctx);
+    }
+
+    /**
+     * Bindings of the installation. Bindings of installations that haven't been loaded yet are loaded in the background,
+     * and the contexts that use them are retyped once they're loaded.
+     */
+    typeLoader(installation?: zephyr.Installation) {
+        if (!this.types.has(installation)) {
+            this.loadTypes(installation);
+        }
+
+        return this.types.get(installation);
+    }
+
+    private async loadTypes(installation?: zephyr.Installation) {
         const timeStart = process.hrtime();
-        const bindingDirs = getBindingDirs();
-        await Promise.all(bindingDirs.map(d => this.types.addFolder(d)));
+        const loader = new types.TypeLoader();
+        this.types.set(installation, loader);
+        const bindingDirs = getBindingDirs(installation);
+        await Promise.all(bindingDirs.map(d => loader.addFolder(d)));
         const procTime = process.hrtime(timeStart);
-        console.log(`Found ${Object.keys(this.types.types).length} bindings in ${bindingDirs.join(', ')}. ${(procTime[0] * 1e9 + procTime[1]) / 1000000} ms`);
+        console.log(`Found ${Object.keys(loader.types).length} bindings in ${bindingDirs.join(', ')}. ${(procTime[0] * 1e9 + procTime[1]) / 1000000} ms`);
+        lintBindings(loader);
+
+        // Contexts that were parsed while the bindings were loading got types from the incomplete loader:
+        this.parser.contexts.filter(ctx => ctx.types === loader).forEach(ctx => this.parser.retype(ctx, () => true));
+
+        bindingDirs.filter(dir => existsSync(dir)).forEach(dir => {
+            const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(dir, '**/*.yaml'));
+            watcher.onDidChange(uri => this.reloadType(loader, uri));
+            watcher.onDidCreate(uri => this.reloadType(loader, uri));
+            watcher.onDidDelete(uri => this.reloadType(loader, uri));
+            this.bindingWatchers.push(watcher);
+        });
+    }
+
+    /** Reload a changed binding file, and update the contexts that use it. */
+    private async reloadType(loader: types.TypeLoader, uri: vscode.Uri) {
+        const names = await loader.reload(uri.fsPath);
+        if (!names.length) {
+            return;
+        }
+
+        lintBindings(loader);
+
+        // Nodes without a valid type may match the new bindings, and child nodes may use their parent's child binding:
+        const stale = (node: dts.Node) => !node.type?.valid || names.includes(node.type.name) || names.includes(node.parent?.type?.name);
+        this.parser.contexts.filter(ctx => ctx.types === loader).forEach(ctx => this.parser.retype(ctx, stale));
+    }
+
+    async activate(ctx: vscode.ExtensionContext) {
+        ctx.subscriptions.push({ dispose: () => this.bindingWatchers.forEach(watcher => watcher.dispose()) });
+        await Promise.all((zephyr.installations.length ? zephyr.installations : [undefined]).map(installation => this.loadTypes(installation)));
         await this.loadCtxs();
         await this.parser.activate(ctx);
         this.cSupport.activate(ctx);
@@ -379,7 +593,7 @@ class DTSEngine implements
         ctx.subscriptions.push(disposable);
         disposable = vscode.languages.registerWorkspaceSymbolProvider(this);
         ctx.subscriptions.push(disposable);
-        disposable = vscode.languages.registerDefinitionProvider([...allDTSFiles, <vscode.DocumentFilter>{ language: 'yaml', scheme: 'file' }], this);
+        disposable = vscode.languages.registerDefinitionProvider(allDTSFiles, this);
         ctx.subscriptions.push(disposable);
         disposable = vscode.languages.registerHoverProvider(allDTSFiles, this);
         ctx.subscriptions.push(disposable);
@@ -399,10 +613,16 @@ class DTSEngine implements
         ctx.subscriptions.push(disposable);
         disposable = vscode.languages.registerTypeDefinitionProvider(realDTSFiles, this);
         ctx.subscriptions.push(disposable);
+        disposable = vscode.languages.registerFoldingRangeProvider(realDTSFiles, this);
+        ctx.subscriptions.push(disposable);
+        disposable = vscode.languages.registerCodeLensProvider(realDTSFiles, this);
+        ctx.subscriptions.push(disposable);
+        ctx.subscriptions.push(this.inactiveDecoration);
+        ctx.subscriptions.push(vscode.window.onDidChangeVisibleTextEditors(editors => this.updateInactive(editors)));
 
         vscode.commands.registerCommand('devicetree.showOutput', (uri: dts.DTSCtx | vscode.Uri) => {
             if (uri instanceof dts.DTSCtx) {
-                uri = uri.files.pop()?.uri;
+                uri = (uri.appOverlay ?? uri.boardFile)?.uri;
             } else if (!uri && vscode.window.activeTextEditor?.document.languageId === 'dts') {
                 uri = vscode.window.activeTextEditor?.document.uri;
             }
@@ -412,6 +632,28 @@ class DTSEngine implements
             }
         });
 
+        this.macroExpansions.activate(ctx);
+        this.bindings.activate(ctx);
+        vscode.commands.registerCommand('devicetree.expandMacro', async () => {
+            const editor = vscode.window.activeTextEditor;
+            if (editor?.document.languageId !== 'dts') {
+                return;
+            }
+
+            await this.parser.stable();
+            const uri = editor.document.uri;
+            const position = editor.selection.active;
+            const file = this.parser.file(uri);
+            const line = file?.lines.find(l => l.uri.fsPath === uri.fsPath && l.number === position.line);
+            const m = line?.macros.find(m => position.character >= m.start && position.character <= m.start + m.raw.length);
+            if (!m) {
+                vscode.window.showInformationMessage('DeviceTree: No macro at the cursor');
+                return;
+            }
+
+            return this.macroExpansions.show(m.raw, line.defines ?? file.defines, new vscode.Location(uri, new vscode.Range(line.number, m.start, line.number, m.start + m.raw.length)));
+        });
+
         vscode.commands.registerCommand('devicetree.newApp', async () => {
             const folder = await vscode.window.showOpenDialog({
                 canSelectFiles: false,
@@ -427,11 +669,11 @@ class DTSEngine implements
                 return;
             }
 
-            const board = await zephyr.selectBoard();
+            const board = await zephyr.installation(vscode.Uri.file(folder))?.selectBoard();
             if (!board) {
                 return;
             }
-            const file = path.join(folder, board.name + '.overlay');
+            const file = path.join(folder, path.basename(board.path, '.dts') + '.overlay');
             if (!existsSync(file)) {
                 writeFileSync(file, '');
             }
@@ -441,27 +683,104 @@ class DTSEngine implements
 
         vscode.commands.registerCommand('devicetree.save', () => this.saveCtxs(true));
 
-        vscode.commands.registerCommand('devicetree.ctx.addShield', () => {
-            if (this.parser.currCtx && vscode.window.activeTextEditor?.document.languageId === 'dts') {
-                const options = <vscode.OpenDialogOptions>{
-                    canSelectFiles: true,
-                    openLabel: 'Add shield file',
-                    canSelectMany: true,
-                    defaultUri: vscode.Uri.file(path.resolve(zephyr.zephyrRoot, 'boards', 'shields')),
-                    filters: { 'DeviceTree': ['dts', 'dtsi', 'overlay'] },
-                };
-                vscode.window.showOpenDialog(options).then(uris => {
-                    if (uris) {
-                        this.parser.insertOverlays(...uris).then(() => {
-                            this.saveCtxs();
-                            if (uris.length === 1) {
-                                vscode.window.showInformationMessage(`Added shield overlay ${path.basename(uris[0].fsPath)}.`);
-                            } else {
-                                vscode.window.showInformationMessage(`Added ${uris.length} shield overlays.`);
-                            }
-                        });
-                    }
-                });
+        vscode.commands.registerCommand('devicetree.importBuild', async (uri?: vscode.Uri) => {
+            if (!uri) {
+                const workspace = vscode.workspace.workspaceFolders?.[0]?.uri;
+                uri = await vscode.window.showOpenDialog({
+                    canSelectFiles: false,
+                    canSelectFolders: true,
+                    canSelectMany: false,
+                    openLabel: 'Import build',
+                    defaultUri: workspace && existsSync(path.join(workspace.fsPath, 'build')) ? vscode.Uri.file(path.join(workspace.fsPath, 'build')) : workspace,
+                }).then(uris => uris?.[0], () => undefined);
+            }
+
+            if (!uri) {
+                return;
+            }
+
+            const ctxs = await this.importBuild(uri.fsPath);
+            if (!ctxs.length) {
+                vscode.window.showErrorMessage(`DeviceTree: No Zephyr build found in ${vscode.workspace.asRelativePath(uri)}`);
+            } else if (ctxs.length === 1) {
+                vscode.window.showInformationMessage(`Imported DeviceTree context ${ctxs[0].name}.`);
+            } else {
+                vscode.window.showInformationMessage(`Imported ${ctxs.length} DeviceTree contexts.`);
+            }
+        });
+
+        // Keep the imported contexts in sync with their build directories:
+        const buildWatcher = vscode.workspace.createFileSystemWatcher('**/{CMakeCache.txt,zephyr/zephyr.dts.d}', false, false, true);
+        const buildTimers: {[dir: string]: ReturnType<typeof setTimeout>} = {};
+        const onBuildChange = (uri: vscode.Uri) => {
+            const dir = path.basename(uri.fsPath) === 'CMakeCache.txt' ? path.dirname(uri.fsPath) : path.dirname(path.dirname(uri.fsPath));
+            if (this.parser.contexts.some(ctx => ctx.buildDir === dir)) {
+                // Builds write several files at once:
+                clearTimeout(buildTimers[dir]);
+                buildTimers[dir] = setTimeout(() => this.importBuild(dir), 1000);
+            }
+        };
+
+        buildWatcher.onDidCreate(onBuildChange);
+        buildWatcher.onDidChange(onBuildChange);
+        ctx.subscriptions.push(buildWatcher);
+
+        vscode.commands.registerCommand('devicetree.ctx.addShield', async () => {
+            const ctx = this.parser.currCtx;
+            if (!ctx || vscode.window.activeTextEditor?.document.languageId !== 'dts') {
+                return;
+            }
+
+            if (ctx.board && ctx.zephyr?.hasShields()) {
+                const shields = await ctx.zephyr.selectShields(ctx.board);
+                if (!shields?.length) {
+                    return;
+                }
+
+                const overlays = shields.flatMap(shield => zephyr.shieldOverlays(shield, zephyr.boardTarget(ctx.board)));
+                await this.parser.insertOverlays(...overlays.map(overlay => vscode.Uri.file(overlay)));
+                this.saveCtxs();
+                if (shields.length === 1) {
+                    vscode.window.showInformationMessage(`Added shield ${shields[0].name}.`);
+                } else {
+                    vscode.window.showInformationMessage(`Added ${shields.length} shields.`);
+                }
+                return;
+            }
+
+            // Fall back to picking the overlay files by hand:
+            const options = <vscode.OpenDialogOptions>{
+                canSelectFiles: true,
+                openLabel: 'Add shield file',
+                canSelectMany: true,
+                defaultUri: ctx.zephyr && vscode.Uri.file(path.resolve(ctx.zephyr.root, 'boards', 'shields')),
+                filters: { 'DeviceTree': ['dts', 'dtsi', 'overlay'] },
+            };
+            vscode.window.showOpenDialog(options).then(uris => {
+                if (uris) {
+                    this.parser.insertOverlays(...uris).then(() => {
+                        this.saveCtxs();
+                        if (uris.length === 1) {
+                            vscode.window.showInformationMessage(`Added shield overlay ${path.basename(uris[0].fsPath)}.`);
+                        } else {
+                            vscode.window.showInformationMessage(`Added ${uris.length} shield overlays.`);
+                        }
+                    });
+                }
+            });
+        });
+
+        vscode.commands.registerCommand('devicetree.ctx.addSnippet', async (ctx?: dts.DTSCtx) => {
+            ctx = ctx instanceof dts.DTSCtx ? ctx : this.parser.currCtx;
+            if (!ctx?.board || !ctx.zephyr) {
+                return;
+            }
+
+            const snippet = await ctx.zephyr.selectSnippet(ctx.board);
+            if (snippet) {
+                await this.parser.addSnippets(ctx, snippet);
+                this.saveCtxs();
+                vscode.window.showInformationMessage(`Added snippet ${snippet}.`);
             }
         });
 
@@ -508,7 +827,7 @@ class DTSEngine implements
                 return;
             }
 
-            zephyr.selectBoard().then(board => {
+            ctx.zephyr?.selectBoard().then(board => {
                 if (board) {
                     this.parser.setBoard(board, ctx).then(() => {
                         this.saveCtxs();
@@ -525,113 +844,22 @@ class DTSEngine implements
                 return;
             }
 
-            const nodeMacro = (node: dts.Node) => {
-                const labels = node.labels();
-                if (labels.length) {
-                    return `DT_NODELABEL(${toCIdentifier(labels[0])})`;
-                }
-
-                const alias = ctx.node('/alias/')?.properties().find(p => p.pHandle?.is(node));
-                if (alias) {
-                    return `DT_ALIAS(${toCIdentifier(alias.pHandle.val)})`;
-                }
-
-                const chosen = ctx.node('/chosen/')?.properties().find(p => p.pHandle?.is(node));
-                if (chosen) {
-                    return `DT_CHOSEN(${toCIdentifier(alias.pHandle.val)})`;
-                }
-
-                if (node.parent) {
-                    const parent = nodeMacro(node.parent);
-
-                    // better to do DT_PATH(a, b, c) than DT_CHILD(DT_CHILD(a, b), c)
-                    if (!parent.startsWith('DT_NODELABEL(')) {
-                        return `DT_PATH(${toCIdentifier(node.path.slice(1, node.path.length - 1).replace(/\//g, ', '))})`;
-                    }
-
-                    return `DT_CHILD(${parent}, ${toCIdentifier(node.fullName)})`;
-                }
-
-                return `DT_ROOT`;
-            };
-
-            const propMacro = (prop: dts.Property) => {
-                // Selecting the property name
-                if (prop.loc.range.contains(selection)) {
-                    if (prop.name === 'label') {
-                        return `DT_LABEL(${nodeMacro(prop.node)})`;
-                    }
-
-                    // Not generated for properties like #gpio-cells
-                    if (prop.name.startsWith('#')) {
-                        return;
-                    }
-
-                    return `DT_PROP(${nodeMacro(prop.node)}, ${toCIdentifier(prop.name)})`;
-                }
-
-                // Selecting a phandle. Should return the property reference, not the node or cell that's being pointed to,
-                // so that if the value changes, the reference will still be valid.
-                const val = prop.valueAt(selection.start, uri);
-                if (val instanceof dts.ArrayValue) {
-                    const cell = val.cellAt(selection.start, uri);
-                    if (cell instanceof dts.PHandle) {
-                        if (prop.value.length > 1) {
-                            return `DT_PHANDLE_BY_IDX(${nodeMacro(prop.node)}, ${toCIdentifier(prop.name)}, ${prop.value.indexOf(val)})`;
-                        }
-
-                        return `DT_PHANDLE(${nodeMacro(prop.node)}, ${toCIdentifier(prop.name)})`;
-                    }
-
-                    if (prop.name === 'reg') {
-                        const valIdx = prop.value.indexOf(val);
-                        const cellIdx = val.val.indexOf(cell);
-                        const names = prop.cellNames(ctx);
-                        if (names?.length) {
-                            const name = names?.[valIdx % names.length]?.[cellIdx];
-                            if (name) {
-                                if (prop.regs?.length === 1) {
-                                    // Name is either size or addr
-                                    return `DT_REG_${name.toUpperCase()}(${nodeMacro(prop.node)})`;
-                                }
-
-                                // Name is either size or addr
-                                return `DT_REG_${name.toUpperCase()}_BY_IDX(${nodeMacro(prop.node)}, ${valIdx})`;
-                            }
-                        }
-                    }
-
-                    if (val.isNumberArray()) {
-                        const cellIdx = val.val.indexOf(cell);
-                        return `DT_PROP_BY_IDX(${nodeMacro(prop.node)}, ${prop.name}, ${cellIdx})`;
-                    }
-
-                    const names = prop.cellNames(ctx);
-                    if (names?.length) {
-                        const idx = val.val.indexOf(cell);
-                        if (idx >= 0) {
-                            return `DT_PROP(${nodeMacro(prop.node)}, ${toCIdentifier(prop.name)})`;
-                        }
-                    }
-                }
-            };
-
             let macro: string;
             if (this.compiledDocProvider.is(uri)) {
                 const entity = await this.compiledDocProvider.getEntity(selection.start);
                 if (entity instanceof dts.Node) {
-                    macro = nodeMacro(entity);
+                    macro = nodeMacro(ctx, entity);
                 } else if (entity instanceof dts.Property) {
-                    macro = propMacro(entity);
+                    macro = propertyMacro(ctx, entity, selection, uri);
                 }
             } else {
                 const prop = ctx.getPropertyAt(selection.start, uri);
                 if (prop) {
-                    macro = propMacro(prop);
+                    macro = propertyMacro(ctx, prop, selection, uri);
                 } else {
                     const entry = ctx.getEntryAt(selection.start, uri);
                     if (entry?.nameLoc.range.contains(selection.start)) {
-                        macro = nodeMacro(entry.node);
+                        macro = nodeMacro(ctx, entry.node);
                     }
                 }
             }
@@ -654,7 +882,7 @@ class DTSEngine implements
                 return;
             }
 
-            const overlay = [...ctx.overlays].pop();
+            const overlay = ctx.appOverlay;
             const doc = await vscode.workspace.openTextDocument(overlay.uri);
 
             if (uri.toString() === doc.uri.toString()) {
@@ -733,6 +961,33 @@ class DTSEngine implements
         });
     }
 
+    /** Dim the lines that were skipped by the preprocessor. */
+    private updateInactive(editors: readonly vscode.TextEditor[]) {
+        editors.filter(editor => editor.document.languageId === 'dts' && editor.document.uri.scheme === 'file').forEach(editor => {
+            const uri = editor.document.uri;
+            const ranges = this.parser.ctx(uri)?.files
+                .flatMap(file => file.inactive)
+                .filter(loc => loc.uri.toString() === uri.toString())
+                .map(loc => loc.range);
+
+            editor.setDecorations(this.inactiveDecoration, ranges ?? []);
+        });
+    }
+
+    /** Point diagnostics in preprocessed files back to the original source. */
+    private addOrigins(ctx: dts.DTSCtx, diags: DiagnosticsSet) {
+        diags.all.forEach(set => set.diags.forEach(diag => {
+            if (diag.relatedInformation?.some(info => info.message === 'Original source')) {
+                return;
+            }
+
+            const origin = ctx.origin(new vscode.Location(set.uri, diag.range));
+            if (origin) {
+                diag.relatedInformation = [...(diag.relatedInformation ?? []), new vscode.DiagnosticRelatedInformation(origin, 'Original source')];
+            }
+        }));
+    }
+
     private setDiags(diags: DiagnosticsSet) {
         this.prevDiagUris.filter(uri => !diags.all.find(set => uri.toString() === set.uri.toString())).forEach(uri => this.diags.set(uri, []));
         diags.all.forEach(d => this.diags.set(d.uri, d.diags));
@@ -873,6 +1128,12 @@ class DTSEngine implements
     }
 
     async provideHover(document: vscode.TextDocument, position: vscode.Position, token: vscode.CancellationToken): Promise<vscode.Hover> {
+        // Addresses translated through the parents' ranges, when they're different from the local address:
+        const cpuAddressText = (regs: ReturnType<dts.Node['cpuRegs']>) => regs
+            ?.filter(reg => reg.cpuAddr !== undefined && reg.cpuAddr !== reg.addr)
+            .map(reg => `CPU address: \`0x${reg.cpuAddr.toString(16)}\`` + (reg.size ? ` - \`0x${(reg.cpuAddr + reg.size - BigInt(1)).toString(16)}\`` : ''))
+            .join('\n\n');
+
         const hoverNode = (node: dts.Node, includeDefinition=true) => {
             const entries = [new vscode.MarkdownString('`' + node.path + '`')];
 
@@ -880,21 +1141,49 @@ class DTSEngine implements
                 entries.push(new vscode.MarkdownString().appendText(node.type.description));
             }
 
+            const cpuAddress = cpuAddressText(node.cpuRegs());
+            if (cpuAddress) {
+                entries.push(new vscode.MarkdownString(cpuAddress));
+            }
+
             if (includeDefinition) {
                 entries.push(new vscode.MarkdownString().appendCodeblock(node.toString(), 'dts'));
             }
 
+            const origins = node.entries.map(e => this.parser.ctx(e.nameLoc.uri)?.origin(e.nameLoc)).filter(loc => loc);
+            if (origins.length) {
+                entries.push(new vscode.MarkdownString(origins.map(loc => `Defined in [${vscode.workspace.asRelativePath(loc.uri)}:${loc.range.start.line + 1}](${loc.uri.with({ fragment: `L${loc.range.start.line + 1}` })})`).join('\n\n')));
+            }
+
             return new vscode.Hover(entries);
         };
 
         const hoverProp = (prop: dts.Property) => {
             const propType = prop.node.type?.property(prop.name);
+            const cpuAddress = prop.name === 'reg' && cpuAddressText(prop.node.cpuRegs());
+            if (!propType && cpuAddress) {
+                return new vscode.Hover(cpuAddress);
+            }
+
             if (propType) {
                 const results: vscode.MarkdownString[] = [];
                 if (propType.description) {
                     results.push(new vscode.MarkdownString(propType.description));
                 }
                 results.push(new vscode.MarkdownString('type: `' + (Array.isArray(propType.type) ? propType.type.join('`, `') : propType.type) + '`'));
+                if (cpuAddress) {
+                    results.push(new vscode.MarkdownString(cpuAddress));
+                }
+
+                const sources = propertySourcesText(prop.node.type, prop.name);
+                if (sources) {
+                    results.push(new vscode.MarkdownString(sources));
+                }
+
+                // The compatible property selects the binding, so this is where the binding's inheritance chain is shown:
+                if (prop.name === 'compatible' && prop.node.type.valid) {
+                    results.push(bindingChainText(prop.node.type));
+                }
 
                 if (propType.name.endsWith('-map') && propType.name !== 'interrupt-map') {
                     const nexusMap = prop.nexusMap;
@@ -980,6 +1269,11 @@ class DTSEngine implements
                 const names = prop.cellNames(file.ctx);
                 const entry = names?.[prop.value.indexOf(value) % (names?.length || 1)];
                 const name = entry?.[value.val.indexOf(cell) % (entry?.length || 1)] as string;
+                const cpuAddress = prop.name === 'reg' && cpuAddressText(prop.node.cpuRegs()?.filter(reg => reg.addrs.includes(cell as dts.IntValue)));
+                if (name && cpuAddress) {
+                    return new vscode.Hover([name, new vscode.MarkdownString(cpuAddress)], cell.loc.range);
+                }
+
                 if (name) {
                     return new vscode.Hover(name, cell.loc.range);
                 }
@@ -991,18 +1285,31 @@ class DTSEngine implements
             return ref && hoverNode(ref);
         }
 
+        // Names in *-names properties refer to the entries of the property they name:
+        const named = value instanceof dts.StringValue && prop.namedProperty;
+        const namedEntry = named && named.entries?.[prop.value.indexOf(value)];
+        if (namedEntry) {
+            const entryText = `${named.name} = < ${namedEntry.target.toString()} ${namedEntry.cells.map(c => c.toString(true) + ' ').join('')}>;`;
+            return new vscode.Hover(new vscode.MarkdownString().appendCodeblock(entryText, 'dts'), value.loc.range);
+        }
+
         return hoverProp(prop);
     }
 
+    /** The location in the original source, if the location is in a preprocessed file. */
+    private original(loc?: vscode.Location) {
+        return loc && (this.parser.ctx(loc.uri)?.origin(loc) ?? loc);
+    }
+
     provideDefinition(document: vscode.TextDocument, position: vscode.Position, token: vscode.CancellationToken): vscode.ProviderResult<vscode.Definition> {
         if (this.compiledDocProvider.is(document.uri) &&
             document.getWordRangeAtPosition(position)) {
             return this.compiledDocProvider.getEntity(position).then(entity => {
                 if (entity instanceof dts.Node) {
-                    return entity.entries[0]?.nameLoc;
+                    return this.original(entity.entries[0]?.nameLoc);
                 }
 
-                return entity?.loc;
+                return this.original(entity?.loc);
             });
         }
 
@@ -1011,15 +1318,6 @@ class DTSEngine implements
             return;
         }
 
-        if (document.languageId === 'yaml') {
-            const range = document.getWordRangeAtPosition(position, /[\w.,-]+\.ya?ml/);
-            const text = document.getText(range);
-            if (text) {
-                return Object.values(this.types.types).find(t => t.find(tt => tt.filename.match(new RegExp('.*/' + text)))).map(t => new vscode.Location(vscode.Uri.file(t.filename), new vscode.Position(0, 0)));
-            }
-            return [];
-        }
-
         const line = file.lines.find(l => l.uri.fsPath === document.uri.fsPath && l.number === position.line);
         if (line) {
             const m = line.macros.find(m => position.character >= m.start && position.character < m.start + m.raw.length);
@@ -1031,13 +1329,13 @@ class DTSEngine implements
         const node = this.getEntityDefinition(file, document.uri, position);
         if (node instanceof dts.Node) {
             return node.entries
-                .map(e => new vscode.Location(e.loc.uri, e.loc.range));
+                .map(e => this.original(new vscode.Location(e.loc.uri, e.loc.range)));
         }
 
         const prop = file.getPropertyAt(position, document.uri);
         if (prop) {
             if (prop.loc.range.contains(position) && prop.loc.uri.toString() === document.uri.toString()) {
-                return prop.node.uniqueProperties().find(p => p.name === prop.name)?.loc;
+                return this.original(prop.node.uniqueProperties().find(p => p.name === prop.name)?.loc);
             }
 
             const type = prop.valueAt(position, document.uri);
@@ -1145,7 +1443,7 @@ class DTSEngine implements
                         } else if (p.type === 'phandle-array' && p.name.endsWith('-gpios') && defaultGpioController) {
                             snippet.appendText('<');
                             snippet.appendPlaceholder(`&${defaultGpioController.labels()[0] ?? '"' + defaultGpioController.path + '"'}`);
-                            const cells = defaultGpioController.type?.cells(dts.cellName(p.name)) as string[];
+                            const cells = defaultGpioController.type?.cells(dts.cellName(p.name, p['specifier-space'])) as string[];
                             if (cells) {
                                 cells.forEach(c => {
                                     snippet.appendText(' ');
@@ -1191,10 +1489,10 @@ class DTSEngine implements
         const line = document.getText(lineRange);
         const before = line.slice(0, position.character);
 
-        const labelItems = (type: 'node' | 'cell' | 'ref', filter: (node: dts.Node) => boolean = _ => true, prop?: string) => {
+        const labelItems = (type: 'node' | 'cell' | 'ref', filter: (node: dts.Node) => boolean = _ => true, prop?: dts.Property) => {
             const labels: {label: string, node: dts.Node, type?: types.NodeType}[] = [];
             file.ctx.nodeArray().filter(filter).forEach(node => {
-                const type = this.types.nodeType(node);
+                const type = file.ctx.types.nodeType(node);
                 labels.push(...node.labels().map(label => { return { label, node, type }; }));
             });
 
@@ -1208,7 +1506,7 @@ class DTSEngine implements
                     completion.insertText.appendText('\n};\n');
                 } else if (type === 'cell' && prop) {
                     completion.insertText = new vscode.SnippetString(withAmp ? completion.label : l.label);
-                    l.node.refCellNames(prop)?.forEach(cell => {
+                    l.node.refCellNames(prop.name, prop.specifierSpace)?.forEach(cell => {
                         (<vscode.SnippetString>completion.insertText).appendText(' ');
                         (<vscode.SnippetString>completion.insertText).appendPlaceholder(cell);
                     });
@@ -1344,12 +1642,12 @@ class DTSEngine implements
 
                 const ref = before.match(/&[\w-]*$/);
                 if (ref) {
-                    const cellName = '#' + dts.cellName(prop.name);
-                    return labelItems(braces ? 'cell' : 'ref', node => !braces || !!node.property(cellName), prop.name);
+                    const cellName = '#' + dts.cellName(prop.name, prop.specifierSpace);
+                    return labelItems(braces ? 'cell' : 'ref', node => !braces || !!node.property(cellName), prop);
                 }
 
                 if (prop.name === 'compatible') {
-                    return Object.keys(this.types.types).filter(t => !t.startsWith('/')).map(typename => this.types.types[typename].map(type => {
+                    return Object.keys(file.ctx.types.types).filter(t => !t.startsWith('/')).map(typename => file.ctx.types.types[typename].map(type => {
                             const completion = new vscode.CompletionItem(typename, vscode.CompletionItemKind.EnumMember);
                             completion.range = range;
                             if (!braces) {
@@ -1409,7 +1707,7 @@ class DTSEngine implements
                 return completion;
             });
 
-        let nodes: types.NodeType[] = Object.values(this.types.types)
+        let nodes: types.NodeType[] = Object.values(file.ctx.types.types)
             .filter(n => n[0].name !== '/')
             .reduce((all, n) => [...all, ...n], [])
             .filter(n => n.valid && n.name && (!n.name.startsWith('/') || n.name.startsWith(node.name)));
@@ -1540,7 +1838,7 @@ class DTSEngine implements
             return;
         }
 
-        const entryNames = prop.valueNames().map(e => `${capitalize(prop.name.slice(0, prop.name.length - 1))} "${e}"`);
+        const entryNames = prop.valueNames().map(e => `${capitalize(prop.specifierSpace ?? prop.name.slice(0, prop.name.length - 1))} "${e}"`);
         const cells = names[entryIdx];
         const paramIndex = (value[entryIdx].val.findIndex(v => v.loc.range.contains(position)) ?? (value[entryIdx].val.length - 1)) % cells.length;
 
@@ -1661,18 +1959,90 @@ class DTSEngine implements
 
     async provideDocumentLinks(document: vscode.TextDocument, token: vscode.CancellationToken): Promise<vscode.DocumentLink[]> {
         await this.parser.stable();
-        return this.parser.file(document.uri)?.includes.filter(i => i.loc.uri.fsPath === document.uri.fsPath).map(i => {
+        const file = this.parser.file(document.uri);
+        if (!file) {
+            return [];
+        }
+
+        const includes = file.includes.filter(i => i.loc.uri.fsPath === document.uri.fsPath).map(i => {
             const link = new vscode.DocumentLink(i.loc.range, i.dst);
             link.tooltip = i.dst.fsPath;
             return link;
-        }) ?? [];
+        });
+
+        const incbins = file.ctx.properties
+            .filter(p => p.loc.uri.fsPath === document.uri.fsPath)
+            .flatMap(p => p.value.filter(v => v instanceof dts.BytestringValue && v.incbin?.uri) as dts.BytestringValue[])
+            .map(v => {
+                const link = new vscode.DocumentLink(v.incbin.file.loc.range, v.incbin.uri);
+                link.tooltip = `${v.incbin.uri.fsPath} (${countText(v.length, 'byte')})`;
+                return link;
+            });
+
+        return [...includes, ...incbins];
+    }
+
+    async provideFoldingRanges(document: vscode.TextDocument, context: vscode.FoldingContext, token: vscode.CancellationToken): Promise<vscode.FoldingRange[]> {
+        await this.parser.stable();
+        const ctx = this.parser.ctx(document.uri);
+        if (!ctx) {
+            return [];
+        }
+
+        const files = ctx.files.filter(file => file.has(document.uri));
+        const inDocument = (loc: vscode.Location) => loc.uri.toString() === document.uri.toString();
+
+        const conditionals = files
+            .flatMap(file => file.conditionals)
+            .filter(inDocument)
+            .map(loc => new vscode.FoldingRange(loc.range.start.line, loc.range.end.line));
+
+        // Leave the closing brace of each node visible:
+        const nodes = files
+            .flatMap(file => [...file.entries, ...file.fragments])
+            .filter(entry => inDocument(entry.loc) && entry.loc.range.end.line - 1 > entry.loc.range.start.line)
+            .map(entry => new vscode.FoldingRange(entry.loc.range.start.line, entry.loc.range.end.line - 1));
+
+        return [...conditionals, ...nodes];
+    }
+
+    async provideCodeLenses(document: vscode.TextDocument, token: vscode.CancellationToken): Promise<vscode.CodeLens[]> {
+        await this.parser.stable();
+        const file = this.parser.file(document.uri);
+        if (!file) {
+            return [];
+        }
+
+        // Only preprocessed files have linemarkers pointing to their original source:
+        const origins = new Map<number, vscode.Location>();
+        file.lines
+            .filter(line => line.origin && line.uri.toString() === document.uri.toString())
+            .forEach(line => origins.set(line.number, line.origin));
+        if (!origins.size) {
+            return [];
+        }
+
+        return file.entries
+            .filter(entry => entry.nameLoc.uri.toString() === document.uri.toString() && origins.has(entry.nameLoc.range.start.line))
+            .map(entry => {
+                const origin = origins.get(entry.nameLoc.range.start.line);
+                return new vscode.CodeLens(entry.nameLoc.range, {
+                    command: 'vscode.open',
+                    title: 'Open original source',
+                    tooltip: `${origin.uri.fsPath}:${origin.range.start.line + 1}`,
+                    arguments: [origin.uri, <vscode.TextDocumentShowOptions>{ selection: new vscode.Range(origin.range.start, origin.range.start) }],
+                });
+            });
     }
 }
 
 export async function activate(context: vscode.ExtensionContext) {
     await zephyr.activate(context);
 
-    const engine = new DTSEngine();
+    const output = vscode.window.createOutputChannel('DeviceTree');
+    context.subscriptions.push(output);
+
+    const engine = new DTSEngine(output);
     engine.activate(context);
 }
 
@@ -4,19 +4,54 @@
  * SPDX-License-Identifier: MIT
  */
 import * as vscode from 'vscode';
-import { getPHandleCells, NodeEntry, Node, ArrayValue, IntValue, PHandle, StringValue, DTSCtx, Property, Expression } from './dts';
+import { getPHandleCells, NodeEntry, Node, ArrayValue, IntValue, PHandle, StringValue, DTSCtx, Property, Expression, MemReserve } from './dts';
 import * as types from './types';
 import { DiagnosticsSet } from './diags';
 import { countText, sizeString } from './util';
 
 export type LintCtx = { ctx: DTSCtx, types: types.TypeLoader, diags: DiagnosticsSet, gpioControllers: Node[], labels: {[name: string]: Node} };
 
+type AddressRange = { n: Node, reg: Property, start: bigint, size: bigint };
+
+function overlaps(a: AddressRange, b: AddressRange) {
+    return a.start + a.size > b.start && b.start + b.size > a.start;
+}
+
+function pushCollision(range: AddressRange, overlap: AddressRange, ctx: LintCtx) {
+    const diag = ctx.diags.pushLoc(range.reg.valueLoc, `Address range collides with ${overlap.n.fullName}`);
+    if (overlap.start < range.start) {
+        diag.message += ` (ends at 0x${(overlap.start + overlap.size).toString(16)})`;
+    } else if (overlap.start === range.start) {
+        diag.message += ` (${range.n.fullName} also starts at 0x${(range.start + range.size).toString(16)})`;
+    } else {
+        diag.message += ` (${range.n.fullName} ends at 0x${(range.start + range.size).toString(16)})`;
+    }
+
+    diag.relatedInformation = [new vscode.DiagnosticRelatedInformation(overlap.n.entries[0].nameLoc, `${overlap.n.fullName} declared here`)];
+}
+
 function lintNode(node: Node, ctx: LintCtx) {
     const props = node.uniqueProperties();
 
     // Reset node pins in case they end up being removed:
     node.pins = undefined;
 
+    if (node.omitted) {
+        // The omitted node may be the child of the node that was marked:
+        let marked = node;
+        while (!marked.omitIfNoRef && marked.parent) {
+            marked = marked.parent;
+        }
+
+        node.entries.forEach(entry => {
+            const diag = ctx.diags.pushLoc(entry.nameLoc, `Omitted, as nothing references ${marked.uniqueName}`, vscode.DiagnosticSeverity.Hint);
+            diag.relatedInformation = [new vscode.DiagnosticRelatedInformation(marked.omitIfNoRef, 'Marked with /omit-if-no-ref/ here')];
+            diag.tags = [vscode.DiagnosticTag.Unnecessary];
+        });
+
+        return;
+    }
+
     props.forEach(prop => {
         // special properties:
         if (prop.name === 'reg') {
@@ -61,64 +96,34 @@ function lintNode(node: Node, ctx: LintCtx) {
                 diag.relatedInformation = [new vscode.DiagnosticRelatedInformation(interrupts.loc, 'interrupts defined here')];
             }
         } else if (prop.name === 'ranges') {
-            const ranges = new Array<{ childAddr: IntValue[], parentAddr: IntValue[], length: IntValue[] }>();
-            const addrCells = node.addrCells();
-            const parentAddrCells = node.parent?.addrCells() ?? 2;
-            const sizeCells = node.sizeCells();
-
-            if (sizeCells === 1) { // not sure how to deal with multidimensional stuff
-                prop.pHandleArray?.forEach(v => {
-                    if (!v.val.every(cell => cell instanceof IntValue)) {
-                        return;
-                    }
-
-                    let i = 0;
-                    while (i + addrCells + parentAddrCells + sizeCells <= v.val.length) {
-                        const entry = v.val.slice(i, i + addrCells + parentAddrCells + sizeCells);
-                        const range = {
-                            childAddr: <IntValue[]>entry.slice(0, addrCells),
-                            parentAddr: <IntValue[]>entry.slice(addrCells, addrCells + parentAddrCells),
-                            length: <IntValue[]>entry.slice(addrCells + parentAddrCells),
-                        };
-
-                        const rangeLoc = r => new vscode.Location(prop.valueLoc.uri, new vscode.Range(r.childAddr[0].loc.range.start, r.length[0].loc.range.end));
-
-                        const overlap = ranges.find(r => {
-                            for (let j = 0; j < addrCells; j++) {
-                                if ((r.childAddr[j].val >= range.childAddr[j].val && r.childAddr[j].val < range.childAddr[j].val + range.length[j].val) ||
-                                    (range.childAddr[j].val >= r.childAddr[j].val && range.childAddr[j].val < r.childAddr[j].val + r.length[j].val)) {
-                                    return true;
-                                }
-                            }
-                        });
-
-                        if (overlap) {
-                            const diag = ctx.diags.pushLoc(rangeLoc(range), `Ranges shouldn't overlap.`);
-                            diag.relatedInformation = [new vscode.DiagnosticRelatedInformation(rangeLoc(overlap), 'Overlaps with ' + overlap.childAddr[0].toString(true))];
-                        }
+            const ranges = prop.ranges ?? [];
+            const entryLength = node.addrCells() + (node.parent?.addrCells() ?? 2) + node.sizeCells();
+            const rangeLoc = (r: typeof ranges[0]) => new vscode.Location(prop.valueLoc.uri, new vscode.Range(r.childAddr[0].loc.range.start, [...r.childAddr, ...r.parentAddr, ...r.length].pop().loc.range.end));
 
-                        ranges.push(range);
-                        i += entry.length;
-                    }
+            ranges.forEach((range, i) => {
+                const overlap = ranges.slice(0, i).find(r => r.child < range.child + range.size && range.child < r.child + r.size);
+                if (overlap) {
+                    const diag = ctx.diags.pushLoc(rangeLoc(range), `Ranges shouldn't overlap.`);
+                    diag.relatedInformation = [new vscode.DiagnosticRelatedInformation(rangeLoc(overlap), `Overlaps with 0x${overlap.child.toString(16)}`)];
+                }
+            });
 
-                    v.val.slice(i).forEach(c => ctx.diags.pushLoc(c.loc, `Excessive range entries`));
-                });
+            prop.pHandleArray?.filter(v => v.val.every(cell => cell instanceof IntValue)).forEach(v => {
+                v.val.slice(v.val.length - (v.val.length % entryLength)).forEach(c => ctx.diags.pushLoc(c.loc, `Excessive range entries`));
+            });
 
-                if (ranges.length) {
-                    // All children must have addresses in the childAddr ranges:
-                    node.children().forEach(c => {
-                        c.regs()?.forEach(reg => {
-                            reg.addrs.slice(0, addrCells).some((addr, i) => {
-                                if (!ranges.find(r => addr.val >= r.childAddr[i].val && addr.val < r.childAddr[i].val + r.length[0].val)) {
-                                    const loc = new vscode.Location(reg.addrs[0].loc.uri, reg.addrs[0].loc.range.union([...reg.addrs, ...reg.sizes].pop().loc.range));
-                                    const diag = ctx.diags.pushLoc(loc, `Not in parent address range`);
-                                    diag.relatedInformation = [new vscode.DiagnosticRelatedInformation(prop.loc, `Parent ranges property declared here`)];
-                                    return true;
-                                }
-                            });
-                        });
+            if (ranges.length) {
+                // All children must have addresses in the childAddr ranges:
+                node.children().forEach(c => {
+                    c.regs()?.some(reg => {
+                        if (!ranges.find(r => reg.addr >= r.child && reg.addr + reg.size <= r.child + r.size)) {
+                            const loc = new vscode.Location(reg.addrs[0].loc.uri, reg.addrs[0].loc.range.union([...reg.addrs, ...reg.sizes].pop().loc.range));
+                            const diag = ctx.diags.pushLoc(loc, `Not in parent address range`);
+                            diag.relatedInformation = [new vscode.DiagnosticRelatedInformation(prop.loc, `Parent ranges property declared here`)];
+                            return true;
+                        }
                     });
-                }
+                });
             }
 
         } else if (prop.name.endsWith('-map')) {
@@ -301,7 +306,8 @@ function lintNode(node: Node, ctx: LintCtx) {
 
             const name = id + 's';
 
-            const named = node.property(name);
+            // Properties in a specifier space are named after the space, like mbox-names for mboxes:
+            const named = node.property(name) ?? node.uniqueProperties().find(p => p.specifierSpace === id);
             if (!named) {
                 // Can also be named <id>-0, <id>-1 and so on:
                 const indexed = names.map((_, i) => node.property(id + '-' + i));
@@ -324,7 +330,7 @@ function lintNode(node: Node, ctx: LintCtx) {
             let cells = 1;
             const parentRef = node.property(id + '-parent')?.pHandle;
             if (parentRef) {
-                cells = ctx.ctx.node(parentRef.val)?.cellCount(name);
+                cells = ctx.ctx.node(parentRef.val)?.cellCount(named.name, named.specifierSpace);
             }
 
             if (named.value.length !== cells * prop.value.length) {
@@ -382,35 +388,22 @@ function lintNode(node: Node, ctx: LintCtx) {
         });
     }
 
-    // Check overlapping ranges
-    const addressCells = node.addrCells();
-    const sizeCells = node.sizeCells();
-    if (addressCells === 1 && sizeCells === 1) {
-        const ranges = new Array<{ n: Node, start: number, size: number }>();
-        node.children().forEach(c => {
-            const reg = c.property('reg');
-            if (c.enabled() && !c.deleted && reg?.array) {
-                const range = { n: c, start: reg.array[0], size: reg.array[1] };
-                const overlap = ranges.find(r => r.start + r.size > range.start && range.start + range.size > r.start);
+    // Check overlapping ranges of children that aren't mapped to the root address space. The mapped ones are checked globally:
+    const ranges = new Array<AddressRange>();
+    node.children().forEach(c => {
+        const reg = c.property('reg');
+        if (c.enabled() && !c.deleted && !c.omitted) {
+            reg?.regs?.filter(r => node.translateAddress(r.addr) === undefined).forEach(r => {
+                const range = { n: c, reg, start: r.addr, size: r.size };
+                const overlap = ranges.find(r => r.n !== c && overlaps(r, range));
                 if (overlap) {
-                    c.entries.forEach(e => {
-                        const diag = ctx.diags.pushLoc(reg.valueLoc, `Address range collides with ${overlap.n.fullName}`);
-                        if (overlap.start < range.start) {
-                            diag.message += ` (ends at 0x${(overlap.start + overlap.size).toString(16)})`;
-                        } else if (overlap.start === range.start) {
-                            diag.message += ` (${c.fullName} also starts at 0x${(range.start + range.size).toString(16)})`;
-                        } else {
-                            diag.message += ` (${c.fullName} ends at 0x${(range.start + range.size).toString(16)})`;
-                        }
-
-                        diag.relatedInformation = [new vscode.DiagnosticRelatedInformation(overlap.n.entries[0].nameLoc, `${overlap.n.fullName} declared here`)];
-                    });
+                    pushCollision(range, overlap, ctx);
                 }
 
                 ranges.push(range);
-            }
-        });
-    }
+            });
+        }
+    });
 
     if (node.deleted) {
         node.entries.forEach(entry => {
@@ -461,16 +454,16 @@ function lintNode(node: Node, ctx: LintCtx) {
             return;
         }
         node.children().forEach(partition => {
-            partition.regs().forEach(reg => {
-                if (reg.addrs[0].val < flash[0].addrs[0].val) {
+            partition.regs()?.forEach(reg => {
+                if (reg.addr < flash[0].addr) {
                     const diag = ctx.diags.pushLoc(reg.addrs[0].loc, `Partition starts outside flash area`);
                     diag.relatedInformation = [new vscode.DiagnosticRelatedInformation(flash[0].addrs[0].loc, 'Flash area defined here')];
                 }
 
-                const flashEnd = flash[0].addrs[0].val + flash[0].sizes[0].val;
-                const partitionEnd = reg.addrs[0].val + reg.sizes[0].val;
+                const flashEnd = flash[0].addr + flash[0].size;
+                const partitionEnd = reg.addr + reg.size;
                 const distance = partitionEnd - flashEnd;
-                if (distance > 0) {
+                if (distance > BigInt(0)) {
                     const diag = ctx.diags.pushLoc(reg.sizes[0].loc, `Partition exceeds flash area by ${sizeString(distance)}`);
                     diag.relatedInformation = [new vscode.DiagnosticRelatedInformation(flash[0].addrs[0].loc, 'Flash area defined here')];
                 }
@@ -565,7 +558,7 @@ function lintEntry(entry: NodeEntry, ctx: LintCtx) {
                      * For instance, a PWM controller can have a property #pwm-cells = < 2 >, and when another node wants to reference it in a property called pwms,
                      * it has to follow the reference with two cells of numbers, e.g. like < &my-pwm 1 2 >.
                      */
-                    const cells = getPHandleCells(prop.name, ref);
+                    const cells = getPHandleCells(prop.name, ref, prop.specifierSpace);
                     if (cells?.number === undefined) {
                         return;
                     }
@@ -576,9 +569,9 @@ function lintEntry(entry: NodeEntry, ctx: LintCtx) {
                         return;
                     }
 
-                    const mapName = prop.name.slice(0, prop.name.length - 1) + '-map';
+                    const mapName = (prop.specifierSpace ?? prop.name.slice(0, prop.name.length - 1)) + '-map';
                     const nexusMap = ref.property(mapName);
-                    if (nexusMap && !ref.remap(prop.name, e)) {
+                    if (nexusMap && !ref.remap(prop.name, e, prop.specifierSpace)) {
                         ctx.diags.pushLoc(e.target.loc, `${e.target.toString()}'s nexus map does not have any matches for <${e.target.toString(true)} ${e.cells.map(c => c.toString(true)).join(' ')}>.`, vscode.DiagnosticSeverity.Error);
                         return;
                     }
@@ -621,10 +614,15 @@ function lintEntry(entry: NodeEntry, ctx: LintCtx) {
             'array': ['int']
         };
 
+        // Bindings can only describe 32-bit cells and 8-bit uint8-arrays:
+        const cellWidth = (<ArrayValue[]>prop.value.filter(v => v instanceof ArrayValue)).find(v => v.bits !== 32 && v.bits !== 8)?.bits;
+
         if (actualPropType === 'invalid') {
             ctx.diags.pushLoc(prop.valueLoc, `Invalid property value`, vscode.DiagnosticSeverity.Error);
         } else if (propType.type !== 'compound') {
-            if (Array.isArray(propType.type)) {
+            if (cellWidth) {
+                ctx.diags.pushLoc(prop.loc, `Property value type must be ${[propType.type].flat().join(', ')}, was /bits/ ${cellWidth} ${actualPropType}`);
+            } else if (Array.isArray(propType.type)) {
                 if (!propType.type.includes(actualPropType) && !propType.type.find(t => equivalent[t]?.includes(actualPropType))) {
                     ctx.diags.pushLoc(prop.loc, `Property value type must be one of ${propType.type.join(', ')}, was ${actualPropType}`);
                 }
@@ -674,7 +672,7 @@ function lintEntry(entry: NodeEntry, ctx: LintCtx) {
         }
     }
 
-    if (entry.properties.length === 0 && entry.children.length === 0) {
+    if (entry.properties.length === 0 && entry.children.length === 0 && !(entry.file.plugin && node === ctx.ctx.root)) {
         const diag = ctx.diags.pushLoc(entry.nameLoc, 'Empty node', vscode.DiagnosticSeverity.Hint);
         diag.tags = [vscode.DiagnosticTag.Unnecessary];
     } else if (redundantEntries === entry.properties.length && entry.children.length === 0) {
@@ -684,7 +682,7 @@ function lintEntry(entry: NodeEntry, ctx: LintCtx) {
 }
 
 export function gatherPins(n: Node, ctx: LintCtx) {
-    if (!n.enabled()) {
+    if (!n.enabled() || n.omitted) {
         return;
     }
 
@@ -768,8 +766,81 @@ export function gatherPins(n: Node, ctx: LintCtx) {
     });
 }
 
+function isMemory(n: Node) {
+    return n.property('device_type')?.string === 'memory' || n.type?.is('mmio-sram') || ['memory', 'sram'].includes(n.name);
+}
+
+function isReservedMemory(n: Node) {
+    return n.path.startsWith('/reserved-memory/');
+}
+
+/** Nodes that are part of the output */
+function activeNodes(ctx: LintCtx) {
+    return ctx.ctx.nodeArray().filter(n => n.enabled() && !n.deleted && !n.omitted);
+}
+
+function lintMemReserves(ctx: LintCtx) {
+    const end = (r: MemReserve) => r.addr.bigVal + r.size.bigVal;
+    const reserved = new Array<MemReserve>();
+    ctx.ctx.memreserves.forEach(r => {
+        const overlap = reserved.find(o => o.addr.bigVal < end(r) && r.addr.bigVal < end(o));
+        if (overlap) {
+            const diag = ctx.diags.pushLoc(r.loc, `Reserved memory collides with another reservation (ends at 0x${end(overlap).toString(16)})`);
+            diag.relatedInformation = [new vscode.DiagnosticRelatedInformation(overlap.loc, 'Other reservation declared here')];
+        }
+
+        reserved.push(r);
+    });
+
+    if (!reserved.length) {
+        return;
+    }
+
+    // Reservations are carved out of memory, so only memory nodes may contain them:
+    activeNodes(ctx).filter(n => !isMemory(n) && !isReservedMemory(n)).forEach(n => {
+        n.cpuRegs()?.filter(reg => reg.cpuAddr !== undefined).forEach(reg => {
+            const overlap = reserved.find(r => r.addr.bigVal < reg.cpuAddr + reg.size && reg.cpuAddr < end(r));
+            if (overlap) {
+                const diag = ctx.diags.pushLoc(reg.addrs[0].loc, `Address range collides with reserved memory (0x${overlap.addr.bigVal.toString(16)} - 0x${(end(overlap) - BigInt(1)).toString(16)})`);
+                diag.relatedInformation = [new vscode.DiagnosticRelatedInformation(overlap.loc, 'Reserved here')];
+            }
+        });
+    });
+}
+
+/** Check for collisions between all nodes in the root address space, using their translated CPU addresses */
+function lintAddressCollisions(ctx: LintCtx) {
+    // Nodes may overlap with their own children, and reserved memory is carved out of other memory nodes:
+    const contains = (a: Node, b: Node) => {
+        for (let n = b; n; n = n.parent) {
+            if (n === a) {
+                return true;
+            }
+        }
+
+        return false;
+    };
+
+    const related = (a: Node, b: Node) => contains(a, b) || contains(b, a);
+    const ranges = new Array<AddressRange>();
+    activeNodes(ctx).filter(n => !isReservedMemory(n)).forEach(n => {
+        const reg = n.property('reg');
+        n.cpuRegs()?.filter(r => r.cpuAddr !== undefined).forEach(r => {
+            const range = { n, reg, start: r.cpuAddr, size: r.size };
+            const overlap = ranges.find(o => !related(o.n, n) && overlaps(o, range));
+            if (overlap) {
+                pushCollision(range, overlap, ctx);
+            }
+
+            ranges.push(range);
+        });
+    });
+}
+
 export function lint(ctx: LintCtx) {
     ctx.ctx.entries.forEach(e => lintEntry(e, ctx));
+    lintMemReserves(ctx);
+    lintAddressCollisions(ctx);
     Object.values(ctx.ctx.nodes).forEach(n => {
         try {
             lintNode(n, ctx);
@@ -0,0 +1,91 @@
+/*
+ * Copyright (c) 2020 Trond Snekvik
+ *
+ * SPDX-License-Identifier: MIT
+ */
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { Define, Defines, expansionSteps, FileMacro, LineMacro, CounterMacro } from './preprocessor';
+
+type Expansion = { text: string, links: vscode.DocumentLink[] };
+
+/**
+ * Read-only documents showing how a macro is expanded, step by step.
+ */
+export class MacroExpansionProvider implements vscode.TextDocumentContentProvider, vscode.DocumentLinkProvider {
+    static readonly scheme = 'devicetree-macro';
+    private expansions: { [uri: string]: Expansion } = {};
+    private count = 0;
+
+    private definition(macro: Define, links: vscode.DocumentLink[], text: string) {
+        const signature = macro.args ? `${macro.name}(${macro.args.join(', ')})` : macro.name;
+        if (macro instanceof LineMacro || macro instanceof FileMacro || macro instanceof CounterMacro) {
+            return `/* Built-in macro */\n#define ${signature}\n`;
+        }
+
+        const value = macro.value(macro.definition?.location);
+        if (!macro.definition) {
+            return `/* Defined in the configuration */\n#define ${signature} ${value}\n`;
+        }
+
+        const location = `${vscode.workspace.asRelativePath(macro.definition.uri)}:${macro.definition.number + 1}`;
+        const comment = `/* Defined in ${location} */\n`;
+
+        // Link to the definition from the location in the comment:
+        const line = text.split('\n').length - 1;
+        const col = comment.indexOf(location);
+        const link = new vscode.DocumentLink(new vscode.Range(line, col, line, col + location.length), macro.definition.uri.with({ fragment: `L${macro.definition.number + 1}` }));
+        link.tooltip = macro.definition.uri.fsPath;
+        links.push(link);
+
+        return comment + `#define ${signature} ${value}\n`;
+    }
+
+    /**
+     * Open a document with the step by step expansion of the given macro invocation.
+     *
+     * @param invocation Text of the macro invocation, including any arguments.
+     * @param defines Macros that are defined at the invocation.
+     * @param loc Location of the invocation.
+     */
+    async show(invocation: string, defines: Defines, loc: vscode.Location) {
+        const steps = expansionSteps(invocation, defines, loc);
+        const links = new Array<vscode.DocumentLink>();
+
+        let text = `/* Expansion of ${invocation} in ${path.basename(loc.uri.fsPath)}:${loc.range.start.line + 1} */\n\n${invocation}\n`;
+        steps.forEach((step, i) => {
+            const names = step.macros.map(m => m.macro.name).filter((name, i, all) => all.indexOf(name) === i);
+            text += `\n/* Step ${i + 1}: ${names.join(', ')} */\n${step.text}\n`;
+        });
+
+        const macros = steps.flatMap(step => step.macros.map(m => m.macro)).filter((macro, i, all) => all.indexOf(macro) === i);
+        if (macros.length) {
+            text += '\n/* Macros: */\n';
+            macros.forEach(macro => {
+                text += '\n';
+                text += this.definition(macro, links, text);
+            });
+        }
+
+        // The extension makes the document show up as DeviceTree:
+        const name = invocation.match(/^\w+/)?.[0] ?? 'macro';
+        const uri = vscode.Uri.parse(`${MacroExpansionProvider.scheme}:Expansion of ${name}.dtsi?${this.count++}`);
+        this.expansions[uri.toString()] = { text, links };
+
+        return vscode.window.showTextDocument(uri, { viewColumn: vscode.ViewColumn.Beside, preview: true });
+    }
+
+    provideTextDocumentContent(uri: vscode.Uri): vscode.ProviderResult<string> {
+        return this.expansions[uri.toString()]?.text ?? '/* Expansion is no longer available */';
+    }
+
+    provideDocumentLinks(document: vscode.TextDocument): vscode.ProviderResult<vscode.DocumentLink[]> {
+        return this.expansions[document.uri.toString()]?.links ?? [];
+    }
+
+    activate(ctx: vscode.ExtensionContext) {
+        ctx.subscriptions.push(vscode.workspace.registerTextDocumentContentProvider(MacroExpansionProvider.scheme, this));
+        ctx.subscriptions.push(vscode.languages.registerDocumentLinkProvider({ scheme: MacroExpansionProvider.scheme }, this));
+        ctx.subscriptions.push(vscode.workspace.onDidCloseTextDocument(doc => delete this.expansions[doc.uri.toString()]));
+    }
+}
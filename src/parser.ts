@@ -16,6 +16,8 @@ export class ParserState {
     private prevRange: { start: Offset, length: number };
     diags: DiagnosticsSet;
     uri: vscode.Uri;
+    /** Include directories for files referenced in the source, like /incbin/ */
+    includes: string[];
 
     location(start?: Offset, end?: Offset) {
         if (!start) {
@@ -187,9 +189,10 @@ export class ParserState {
         }).join('\n');
     }
 
-    constructor(uri: vscode.Uri, diags: DiagnosticsSet, lines: Line[]) {
+    constructor(uri: vscode.Uri, diags: DiagnosticsSet, lines: Line[], includes: string[]=[]) {
         this.uri = uri;
         this.diags = diags;
+        this.includes = includes;
         this.offset = {line: 0, col: 0};
         this.prevRange = { start: this.offset, length: 0 };
         this.lines = lines;
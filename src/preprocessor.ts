@@ -6,13 +6,24 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
+import * as crypto from 'crypto';
 import { DiagnosticsSet } from './diags';
 import { evaluateExpr } from './util';
 
 export type IncludeStatement = { loc: vscode.Location, dst: vscode.Uri };
 
 export type Defines = { [name: string]: Define };
-export type ProcessedFile = { lines: Line[], defines: Defines, includes: IncludeStatement[] };
+export type ProcessedFile = {
+    lines: Line[],
+    defines: Defines,
+    includes: IncludeStatement[],
+    /** Lines that were skipped because their #if condition was false */
+    inactive: vscode.Location[],
+    /** Each branch of the #if directives, from the directive to the line before the next one */
+    conditionals: vscode.Location[],
+    /** Preprocessor directives, including their continuation lines */
+    directives: vscode.Location[],
+};
 
 export function toDefines(list: Define[]): Defines {
     const defines: Defines = {};
@@ -76,7 +87,13 @@ function resolve(text: string, defines: Defines, loc: vscode.Location): string {
     return replace(text, findReplacements(text, defines, loc));
 }
 
-function findReplacements(text: string, defines: Defines, loc: vscode.Location): MacroInstance[] {
+/**
+ * Find the macros in the text, and the values they expand to.
+ *
+ * @param nested Whether to expand macros in the values as well. Otherwise, only a single level of macros is expanded.
+ */
+export function findReplacements(text: string, defines: Defines, loc: vscode.Location, nested = true): MacroInstance[] {
+    const expand = (text: string) => nested ? resolve(text, defines, loc) : text;
     const macros = new Array<MacroInstance>();
     const regex = new RegExp(/\w+|(?<!\\)"/g);
     let inString = false;
@@ -96,12 +113,17 @@ function findReplacements(text: string, defines: Defines, loc: vscode.Location):
             continue;
         }
         if (!macro.args) {
-            const val = resolve(macro.value(loc), defines, loc);
+            const val = expand(macro.value(loc));
             macros.push(new MacroInstance(macro, match[0], val, match.index));
             continue;
         }
 
         const {args, raw: rawArgs} = parseArgs(text.slice(match.index + match[0].length));
+        if (!rawArgs) {
+            // Function-like macros are only expanded when they're invoked:
+            continue;
+        }
+
         regex.lastIndex = match.index + match[0].length + rawArgs.length;
 
         /* Replace macro arguments:
@@ -112,30 +134,43 @@ function findReplacements(text: string, defines: Defines, loc: vscode.Location):
          * - Other instances are replaced by their values, and any defines will be expanded.
          */
         const replacements = {};
+        let variadic: string;
         macro.args.forEach((arg, i, all) => {
             if (i == all.length - 1) {
                 if (arg === '...') {
-                    replacements['__VA_ARGS__'] = args.slice(i).join(', ');
+                    variadic = '__VA_ARGS__';
+                    replacements[variadic] = args.slice(i).join(', ');
                     return;
                 }
 
                 if (arg.endsWith('...')) {
-                    replacements[arg.replace(/\.\.\.$/, '')] = args.slice(i).join(', ');
+                    variadic = arg.replace(/\.\.\.$/, '');
+                    replacements[variadic] = args.slice(i).join(', ');
                     return;
                 }
             }
             replacements[arg] = args[i];
         });
-        let insert = macro.value(loc).replace(/(?:,\s*##\s*(__VA_ARGS__)|(?<=##)\s*(\w+)\b|\b(\w+)\s*(?=##)|(?<!#)#\s*(\w+)\b|\b(\w+)\b)/g,
+        let insert = macro.value(loc);
+        if (variadic) {
+            // __VA_OPT__(content) only expands to its content if there are variable arguments:
+            insert = insert.replace(/\b__VA_OPT__\s*\(([^()]*)\)/g, (t, content) => replacements[variadic] ? content : '');
+        }
+
+        insert = insert.replace(/(?:,\s*##\s*(\w+)\b|(?<=##)\s*(\w+)\b|\b(\w+)\s*(?=##)|(?<!#)#\s*(\w+)\b|\b(\w+)\b)/g,
             (original, vaArgs, concat1, concat2, stringified, raw) => {
+                if (vaArgs !== undefined && vaArgs !== variadic) {
+                    return ',' + (replacements[vaArgs] ?? vaArgs);
+                }
+
                 let v = replacements[vaArgs];
                 if (v !== undefined) {
                     // If the value is empty, we'll consume the comma:
                     if (v) {
-                        return resolve(', ' + v, defines, loc);
+                        return expand(', ' + v);
                     }
 
-                    return resolve(v, defines, loc);
+                    return expand(v);
                 }
 
                 v = replacements[concat1] ?? replacements[concat2];
@@ -150,7 +185,7 @@ function findReplacements(text: string, defines: Defines, loc: vscode.Location):
 
                 v = replacements[raw];
                 if (v !== undefined) {
-                    return resolve(v, defines, loc);
+                    return expand(v);
                 }
 
                 return original;
@@ -159,12 +194,33 @@ function findReplacements(text: string, defines: Defines, loc: vscode.Location):
 
         insert = insert.replace(/\s*##\s*/g, '');
 
-        macros.push(new MacroInstance(macro, match[0] + rawArgs, resolve(insert, defines, loc), match.index));
+        macros.push(new MacroInstance(macro, match[0] + rawArgs, expand(insert), match.index));
     }
 
     return macros;
 }
 
+/**
+ * Expand the macros in the text one level at a time, until there's nothing left to expand.
+ *
+ * @returns The text after each expansion step, along with the macros that were expanded in that step.
+ */
+export function expansionSteps(text: string, defines: Defines, loc: vscode.Location, maxSteps = 64): { text: string, macros: MacroInstance[] }[] {
+    const steps = new Array<{ text: string, macros: MacroInstance[] }>();
+    while (steps.length < maxSteps) {
+        const macros = findReplacements(text, defines, loc, false);
+        const expanded = replace(text, macros);
+        if (!macros.length || expanded === text) {
+            break;
+        }
+
+        text = expanded;
+        steps.push({ text, macros });
+    }
+
+    return steps;
+}
+
 export class Define {
     private _value: string;
     name: string;
@@ -189,25 +245,36 @@ export class Define {
 }
 
 export class LineMacro extends Define {
+    /** Offset from the actual line number, set by #line */
+    private offset: number;
+
     value(loc: vscode.Location) {
-        return (loc.range.start.line + 1).toString();
+        return (loc.range.start.line + 1 + this.offset).toString();
     }
 
-    constructor() {
+    constructor(offset = 0) {
         super('__LINE__', '0');
+        this.offset = offset;
     }
 }
 
 export class FileMacro extends Define {
     private cwd: string;
+    /** File name set by #line */
+    private fileName?: string;
 
     value(loc: vscode.Location) {
+        if (this.fileName !== undefined) {
+            return `"${this.fileName}"`;
+        }
+
         return `"${path.relative(this.cwd, loc.uri.fsPath).replace(/\\/g, '\\\\')}"`;
     }
 
-    constructor(cwd: string) {
+    constructor(cwd: string, fileName?: string) {
         super('__FILE__', '<unknown>');
         this.cwd = cwd;
+        this.fileName = fileName;
     }
 }
 
@@ -241,6 +308,53 @@ export class MacroInstance {
     }
 }
 
+/** Find an included file, searching the including file's directory first, then the include directories. */
+export function resolveInclude(include: string, dir: string, includes: string[]): string | undefined {
+    return [path.resolve(dir), ...includes].map(dir => path.resolve(dir, include)).find(path => fs.existsSync(path));
+}
+
+/**
+ * Find the next file with the given name in the include directories, like #include_next.
+ *
+ * The search starts after the include directory of the current file. If the current file isn't in any of the
+ * include directories, all of them are searched.
+ */
+export function resolveIncludeNext(include: string, current: vscode.Uri, includes: string[]): string | undefined {
+    const dirs = includes.map(dir => path.resolve(dir));
+    const containing = dirs.filter(dir => !path.relative(dir, current.fsPath).startsWith('..'));
+    // Use the most specific directory, in case the include directories are nested:
+    const index = containing.length ? dirs.indexOf(containing.reduce((a, b) => b.length > a.length ? b : a)) : -1;
+    return dirs.slice(index + 1).map(dir => path.resolve(dir, include)).find(path => fs.existsSync(path) && path !== current.fsPath);
+}
+
+/**
+ * Remove the comments from a line of text.
+ *
+ * @param inComment Whether the line starts inside a block comment.
+ * @returns The remaining text, which is undefined if the entire line is inside a block comment, and whether the next
+ * line starts inside a block comment.
+ */
+export function stripComments(text: string, inComment = false): { text?: string, inComment: boolean } {
+    if (inComment) {
+        const blockEnd = text.match(/^.*?\*\//);
+        if (!blockEnd) {
+            return { inComment };
+        }
+
+        text = text.slice(blockEnd[0].length);
+    }
+
+    text = text.replace(/\/\/.*/, '');
+    text = text.replace(/\/\*.*?\*\//, '');
+
+    const blockComment = text.match(/\/\*.*/);
+    if (blockComment) {
+        return { text: text.replace(blockComment[0], ''), inComment: true };
+    }
+
+    return { text, inComment: false };
+}
+
 function readLines(doc: vscode.TextDocument): Line[] | null {
     try {
         const text = doc.getText();
@@ -250,11 +364,18 @@ function readLines(doc: vscode.TextDocument): Line[] | null {
     }
 }
 
+/** Location of a directive's condition, for precise diagnostics */
+function conditionLocation(line: Line, condition: string) {
+    const start = line.location.range.start.translate(0, Math.max(line.text.indexOf(condition), 0));
+    return new vscode.Location(line.uri, new vscode.Range(start, line.location.range.end));
+}
+
 function evaluate(text: string, loc: vscode.Location, defines: Defines, diagSet: DiagnosticsSet): any {
     text = resolve(text, defines, loc);
     try {
         const diags = new Array<vscode.Diagnostic>();
-        const result = evaluateExpr(text, loc.range.start, diags);
+        // Identifiers that remain after macro expansion are undefined macros, which evaluate to 0:
+        const result = evaluateExpr(text, loc.range.start, diags, true);
         diags.forEach(d => diagSet.pushLoc(new vscode.Location(loc.uri, d.range), d.message, d.severity));
         return result;
     } catch (e) {
@@ -264,13 +385,72 @@ function evaluate(text: string, loc: vscode.Location, defines: Defines, diagSet:
     return 0;
 }
 
-export async function preprocess(doc: vscode.TextDocument, defines: Defines, includes: string[], diags: DiagnosticsSet): Promise<ProcessedFile> {
-    const pushLineDiag = (line: Line, message: string, severity: vscode.DiagnosticSeverity=vscode.DiagnosticSeverity.Warning) => {
-        const diag = new vscode.Diagnostic(line.location.range, message, severity);
-        diags.push(line.uri, diag);
-        return diag;
-    };
+/** Preprocessed include file, along with its side effects */
+type CachedInclude = {
+    /** Hash of the file's content and the state it was included in */
+    key: string;
+    /** All files that went into the result */
+    files: string[];
+    lines: Line[];
+    /** Macros that were defined or undefined by the file */
+    defines: Defines;
+    includes: IncludeStatement[];
+    inactive: vscode.Location[];
+    conditionals: vscode.Location[];
+    directives: vscode.Location[];
+    once: vscode.Uri[];
+    diags: DiagnosticsSet;
+};
+
+/**
+ * Cache of preprocessed include files, shared between contexts.
+ *
+ * The output of an include file depends on its content, the macros that are defined when it's included and the
+ * include paths its own includes are resolved against, so the entries are keyed by a hash of all three.
+ */
+export class IncludeCache {
+    private entries: { [uri: string]: CachedInclude[] } = {};
+    /** Max number of variants of each file */
+    private readonly variants = 8;
+
+    static key(doc: vscode.TextDocument, defines: Defines, once: vscode.Uri[], includes: string[]) {
+        const hash = crypto.createHash('sha1');
+        hash.update(doc.getText());
+        Object.keys(defines).sort().forEach(name => {
+            const define = defines[name];
+            if (!(define instanceof LineMacro || define instanceof FileMacro || define instanceof CounterMacro)) {
+                hash.update(`\n${name}(${define.args?.join(',') ?? ''})${define.isDefined ? '=' + define.value(undefined) : ''}`);
+            }
+        });
 
+        once.forEach(uri => hash.update(`\n${uri.toString()}`));
+        // The include path order decides which file an include resolves to:
+        includes.forEach(dir => hash.update(`\n-I${path.resolve(dir)}`));
+        return hash.digest('hex');
+    }
+
+    get(uri: vscode.Uri, key: string) {
+        return this.entries[uri.toString()]?.find(entry => entry.key === key);
+    }
+
+    set(uri: vscode.Uri, entry: CachedInclude) {
+        const entries = this.entries[uri.toString()] ?? [];
+        this.entries[uri.toString()] = [...entries.slice(1 - this.variants), entry];
+    }
+
+    /** Drop all cached output that depends on the given file. */
+    invalidate(uri: vscode.Uri) {
+        Object.entries(this.entries).forEach(([file, entries]) => {
+            this.entries[file] = entries.filter(entry => !entry.files.includes(uri.toString()));
+        });
+    }
+
+    clear() {
+        this.entries = {};
+    }
+}
+
+export async function preprocess(doc: vscode.TextDocument, defines: Defines, includes: string[], diags: DiagnosticsSet, cache?: IncludeCache): Promise<ProcessedFile> {
     const timeStart = process.hrtime();
     const result: ProcessedFile = {
         lines: new Array<Line>(),
@@ -281,239 +461,415 @@ export async function preprocess(doc: vscode.TextDocument, defines: Defines, inc
             ...defines,
         },
         includes: new Array<IncludeStatement>(),
+        inactive: new Array<vscode.Location>(),
+        conditionals: new Array<vscode.Location>(),
+        directives: new Array<vscode.Location>(),
     };
 
-    let rawLines = readLines(doc);
+    const rawLines = readLines(doc);
     if (rawLines === null) {
         diags.push(doc.uri, new vscode.Diagnostic(new vscode.Range(0, 0, 0, 0), 'Unable to read file', vscode.DiagnosticSeverity.Error));
         return result;
     }
 
-    const scopes: {line: Line, condition: boolean}[] = [];
     const once = new Array<vscode.Uri>();
+    const existing: { [file: string]: boolean } = {};
+    const exists = (file: string) => existing[file] ?? (existing[file] = fs.existsSync(file));
+    const lineMacro = result.defines['__LINE__'];
+    const fileMacro = result.defines['__FILE__'];
+    /** Copy of the defines for the processed lines, shared by all lines until a directive changes them */
+    let snapshot: Defines | undefined;
+
+    /* Preprocess the lines of a single file, returning the files that were included. */
+    const processLines = async (rawLines: Line[], diags: DiagnosticsSet): Promise<string[]> => {
+        const pushLineDiag = (line: Line, message: string, severity: vscode.DiagnosticSeverity=vscode.DiagnosticSeverity.Warning) => {
+            const diag = new vscode.Diagnostic(line.location.range, message, severity);
+            diags.push(line.uri, diag);
+            return diag;
+        };
+
+        const isDefined = (name: string) => !!result.defines[name]?.isDefined || ['__has_include', '__has_include_next'].includes(name);
+
+        /* The defined and __has_include operators must be evaluated before the macros in the condition are expanded. */
+        const evaluateCondition = (line: Line, value: string) => {
+            let condition = value.replace(/\bdefined\s*(?:\(\s*(\w+)\s*\)|(\w+))/g, (t, parenthesized, name) => isDefined(parenthesized ?? name) ? '1' : '0');
+            if (condition.match(/\bdefined\b/)) {
+                pushLineDiag(line, 'Expected macro name after defined', vscode.DiagnosticSeverity.Error);
+            }
 
-    while (rawLines.length) {
-        const line = rawLines.splice(0, 1)[0];
-        let text = line.text;
-
-        try {
-            text = text.replace(/\/\/.*/, '');
-            text = text.replace(/\/\*.*?\*\//, '');
-
-            const blockComment = text.match(/\/\*.*/);
-            if (blockComment) {
-                text = text.replace(blockComment[0], '');
-                while (rawLines) {
-                    const blockEnd = rawLines[0].text.match(/^.*?\*\//);
-                    if (blockEnd) {
-                        rawLines[0].text = rawLines[0].text.slice(blockEnd[0].length);
-                        break;
-                    }
-
-                    rawLines.splice(0, 1);
+            condition = condition.replace(/\b(__has_include(?:_next)?)\s*\(\s*(?:"([^"]+)"|<([^>]+)>)\s*\)/g, (t, operator, quoted, angled) => {
+                const include = quoted ?? angled;
+                if (operator === '__has_include_next') {
+                    return resolveIncludeNext(include, line.uri, includes) ? '1' : '0';
                 }
+
+                return resolveInclude(include, path.dirname(line.uri.fsPath), includes) ? '1' : '0';
+            });
+
+            if (condition.match(/\b__has_include(_next)?\b/)) {
+                pushLineDiag(line, 'Expected "file" or <file> after __has_include', vscode.DiagnosticSeverity.Error);
             }
 
-            const directive = text.match(/^\s*#\s*(\w+)/);
-            if (directive) {
-                while (text.endsWith('\\') && rawLines.length) {
-                    text = text.slice(0, text.length - 1) + ' ' + rawLines.splice(0, 1)[0].text;
+            return evaluate(condition, conditionLocation(line, value), result.defines, diags);
+        };
+
+        /* Each scope is an #if directive, with the directive that started its current branch. */
+        const scopes: {line: Line, branch: Line, condition: boolean, taken: boolean}[] = [];
+
+        /* End the current branch of the innermost scope at the given directive. */
+        const endBranch = (line: Line) => {
+            const scope = scopes[scopes.length - 1];
+            if (line.number > scope.branch.number + 1) {
+                result.conditionals.push(new vscode.Location(line.uri, new vscode.Range(scope.branch.number, 0, line.number - 1, 0)));
+                if (!scope.condition && scopes.every(s => s === scope || s.condition)) {
+                    result.inactive.push(new vscode.Location(line.uri, new vscode.Range(scope.branch.number + 1, 0, line.number - 1, 0)));
                 }
+            }
 
-                let value =  text.match(/^\s*#\s*(\w+)\s*(.*)/)[2].trim();
+            scope.branch = line;
+        };
 
-                if (directive[1] === 'if') {
-                    if (!value) {
-                        pushLineDiag(line, 'Missing condition');
-                        scopes.push({line: line, condition: false});
-                        continue;
-                    }
+        /* The position in the original source, from the last linemarker, as an offset from the line numbers in this file. */
+        let origin: { uri?: vscode.Uri, offset: number };
+        const files = new Array<string>();
 
-                    value = value.replace(new RegExp(`defined\\((.*?)\\)`, 'g'), (t, define) => {
-                        return result.defines[define]?.isDefined ? '1' : '0';
-                    });
+        let inComment = false;
+        while (rawLines.length) {
+            const line = rawLines.splice(0, 1)[0];
+            let text = line.text;
 
-                    scopes.push({line: line, condition: !!evaluate(value, line.location, result.defines, diags)});
+            try {
+                ({ text, inComment } = stripComments(text, inComment));
+                if (text === undefined) {
                     continue;
                 }
 
-                if (directive[1] === 'ifdef') {
-                    if (!value) {
-                        pushLineDiag(line, 'Missing condition');
-                        scopes.push({line: line, condition: false});
-                        continue;
+                const directive = text.match(/^\s*#\s*(\w+)/);
+                if (directive) {
+                    snapshot = undefined;
+                    let last = line;
+                    while (text.endsWith('\\') && rawLines.length) {
+                        last = rawLines.splice(0, 1)[0];
+                        text = text.slice(0, text.length - 1) + ' ' + last.text;
                     }
 
-                    scopes.push({ line: line, condition: result.defines[value]?.isDefined });
-                    continue;
-                }
+                    result.directives.push(new vscode.Location(line.uri, new vscode.Range(line.location.range.start, last.location.range.end)));
 
-                if (directive[1] === 'ifndef') {
-                    if (!value) {
-                        pushLineDiag(line, 'Missing condition');
-                        scopes.push({line: line, condition: false});
+                    const value =  text.match(/^\s*#\s*(\w+)\s*(.*)/)[2].trim();
+
+                    // Conditions inside skipped groups aren't evaluated, only their nesting is tracked. As the group counts as
+                    // taken, its #elif conditions are skipped too:
+                    if (['if', 'ifdef', 'ifndef'].includes(directive[1]) && !scopes.every(c => c.condition)) {
+                        scopes.push({line: line, branch: line, condition: false, taken: true});
                         continue;
                     }
 
-                    scopes.push({ line: line, condition: !result.defines[value]?.isDefined });
-                    continue;
-                }
+                    if (directive[1] === 'if') {
+                        if (!value) {
+                            pushLineDiag(line, 'Missing condition');
+                            scopes.push({line: line, branch: line, condition: false, taken: true});
+                            continue;
+                        }
 
-                if (directive[1] === 'else') {
-                    if (!scopes.length) {
-                        pushLineDiag(line, `Unexpected #else`);
+                        const condition = !!evaluateCondition(line, value);
+                        scopes.push({line: line, branch: line, condition, taken: condition});
                         continue;
                     }
 
-                    scopes[scopes.length - 1].condition = !scopes[scopes.length - 1].condition;
-                    continue;
-                }
-
-                if (directive[1] === 'elif') {
+                    if (directive[1] === 'ifdef') {
+                        if (!value) {
+                            pushLineDiag(line, 'Missing condition');
+                            scopes.push({line: line, branch: line, condition: false, taken: true});
+                            continue;
+                        }
 
-                    if (!scopes.length) {
-                        pushLineDiag(line, `Unexpected #elsif`);
+                        const condition = isDefined(value);
+                        scopes.push({ line: line, branch: line, condition, taken: condition });
                         continue;
                     }
 
-                    if (!value) {
-                        pushLineDiag(line, 'Missing condition');
-                        scopes.push({line: line, condition: false});
+                    if (directive[1] === 'ifndef') {
+                        if (!value) {
+                            pushLineDiag(line, 'Missing condition');
+                            scopes.push({line: line, branch: line, condition: false, taken: true});
+                            continue;
+                        }
+
+                        const condition = !isDefined(value);
+                        scopes.push({ line: line, branch: line, condition, taken: condition });
                         continue;
                     }
 
-                    if (scopes[scopes.length - 1].condition) {
-                        scopes[scopes.length - 1].condition = false;
+                    if (directive[1] === 'else') {
+                        if (!scopes.length) {
+                            pushLineDiag(line, `Unexpected #else`);
+                            continue;
+                        }
+
+                        endBranch(line);
+
+                        scopes[scopes.length - 1].condition = !scopes[scopes.length - 1].taken;
+                        scopes[scopes.length - 1].taken = true;
                         continue;
                     }
 
-                    let condition = resolve(value, result.defines, line.location);
-                    condition = condition.replace(new RegExp(`defined\\((.*?)\\)`, 'g'), (t, define) => {
-                        return result.defines[define]?.isDefined ? '1' : '0';
-                    });
+                    if (directive[1] === 'elif') {
 
-                    scopes[scopes.length - 1].condition = evaluate(condition, line.location, result.defines, diags);
-                    continue;
-                }
+                        if (!scopes.length) {
+                            pushLineDiag(line, `Unexpected #elsif`);
+                            continue;
+                        }
 
-                if (directive[1] === 'endif') {
-                    if (!scopes.length) {
-                        pushLineDiag(line, `Unexpected #endif`);
+                        endBranch(line);
+
+                        const scope = scopes[scopes.length - 1];
+                        if (!value) {
+                            pushLineDiag(line, 'Missing condition');
+                            scope.condition = false;
+                            continue;
+                        }
+
+                        // Only the first branch with a true condition is taken:
+                        if (scope.taken) {
+                            scope.condition = false;
+                            continue;
+                        }
+
+                        scope.condition = !!evaluateCondition(line, value);
+                        scope.taken = scope.condition;
                         continue;
                     }
 
-                    scopes.pop();
-                    continue;
-                }
+                    if (directive[1] === 'endif') {
+                        if (!scopes.length) {
+                            pushLineDiag(line, `Unexpected #endif`);
+                            continue;
+                        }
 
-                // Skip everything else inside a disabled scope:
-                if (!scopes.every(c => c.condition)) {
-                    continue;
-                }
+                        endBranch(line);
+                        scopes.pop();
+                        continue;
+                    }
 
-                if (directive[1] === 'define') {
-                    const define = value.match(/^(\w+)(?:\((.*?)\))?\s*(.*)/);
-                    if (!define) {
-                        pushLineDiag(line, 'Invalid define syntax');
+                    // Skip everything else inside a disabled scope:
+                    if (!scopes.every(c => c.condition)) {
                         continue;
                     }
 
-                    const existing = result.defines[define[1]];
-                    if (existing && !existing.undef) {
-                        pushLineDiag(line, 'Duplicate definition');
+                    if (directive[1] === 'define') {
+                        const define = value.match(/^(\w+)(?:\((.*?)\))?\s*(.*)/);
+                        if (!define) {
+                            pushLineDiag(line, 'Invalid define syntax');
+                            continue;
+                        }
+
+                        const existing = result.defines[define[1]];
+                        if (existing && !existing.undef) {
+                            pushLineDiag(line, 'Duplicate definition');
+                            continue;
+                        }
+
+                        // Defines may be shared with other files through the include cache, so they're never modified:
+                        const macro = new Define(define[1], define[3], line, define[2]?.split(',').map(a => a.trim()));
+                        result.defines[macro.name] = macro;
                         continue;
                     }
 
-                    const macro = existing ?? new Define(define[1], define[3], line, define[2]?.split(',').map(a => a.trim()));
-                    macro.undef = undefined;
-                    result.defines[macro.name] = macro;
-                    continue;
-                }
+                    if (directive[1] === 'undef') {
+                        const undef = value.match(/^\w+/);
+                        if (!value) {
+                            pushLineDiag(line, 'Invalid undef syntax');
+                            continue;
+                        }
+
+                        const define = result.defines[undef[0]];
+                        if (!define || define.undef) {
+                            pushLineDiag(line, 'Unknown define');
+                            continue;
+                        }
 
-                if (directive[1] === 'undef') {
-                    const undef = value.match(/^\w+/);
-                    if (!value) {
-                        pushLineDiag(line, 'Invalid undef syntax');
+                        const removed = new Define(define.name, define.value(line.location), define.definition, define.args);
+                        removed.undef = line;
+                        result.defines[define.name] = removed;
                         continue;
                     }
 
-                    const define = result.defines[undef[0]];
-                    if (!define || define.undef) {
-                        pushLineDiag(line, 'Unknown define');
+                    if (directive[1] === 'pragma') {
+                        if (value === 'once') {
+                            if (once.some(uri => uri.fsPath === line.uri.fsPath)) {
+                                return files;
+                            }
+
+                            once.push(line.uri);
+                        } else {
+                            pushLineDiag(line, `Unknown pragma directive "${value}"`);
+                        }
                         continue;
                     }
 
-                    define.undef = line;
-                    continue;
-                }
+                    if (directive[1] === 'include' || directive[1] === 'include_next') {
+                        const include = value.replace(/(?:"([^\s">]+)"|<([^\s">]+)>)/g, '$1$2').trim();
+                        if (!include) {
+                            pushLineDiag(line, 'Invalid include');
+                            continue;
+                        }
 
-                if (directive[1] === 'pragma') {
-                    if (value === 'once') {
-                        if (once.some(uri => uri.fsPath === line.uri.fsPath)) {
-                            const lines = rawLines.findIndex(l => l.uri.fsPath !== line.uri.fsPath);
-                            if (lines > 0) {
-                                rawLines.splice(0, lines);
-                            }
+                        let file: string;
+                        if (directive[1] === 'include_next') {
+                            file = resolveIncludeNext(include, line.uri, includes);
+                        } else {
+                            file = resolveInclude(include, path.dirname(line.uri.fsPath), includes);
+                        }
+
+                        if (!file) {
+                            pushLineDiag(line, `No such file: ${include}`, vscode.DiagnosticSeverity.Warning);
                             continue;
                         }
 
-                        once.push(line.uri);
-                    } else {
-                        pushLineDiag(line, `Unknown pragma directive "${value}"`);
+                        const uri = vscode.Uri.file(file);
+
+                        const start = text.indexOf(value);
+                        result.includes.push({ loc: new vscode.Location(line.uri, new vscode.Range(line.number, start, line.number, start + value.length)), dst: uri });
+
+                        const doc = await vscode.workspace.openTextDocument(uri);
+                        const lines = readLines(doc);
+                        if (lines === null) {
+                            pushLineDiag(line, 'Unable to read file');
+                        } else {
+                            files.push(...await includeFile(doc, lines, diags));
+                        }
+                        continue;
                     }
-                    continue;
-                }
 
-                if (directive[1] === 'include') {
-                    const include = value.replace(/(?:"([^\s">]+)"|<([^\s">]+)>)/g, '$1$2').trim();
-                    if (!include) {
-                        pushLineDiag(line, 'Invalid include');
+                    if (directive[1] === 'error') {
+                        pushLineDiag(line, value || 'Error', vscode.DiagnosticSeverity.Error);
                         continue;
                     }
 
-                    const file = [path.resolve(path.dirname(line.uri.fsPath)), ...includes].map(dir => path.resolve(dir, include)).find(path => fs.existsSync(path));
-                    if (!file) {
-                        pushLineDiag(line, `No such file: ${include}`, vscode.DiagnosticSeverity.Warning);
+                    if (directive[1] === 'warning') {
+                        pushLineDiag(line, value || 'Warning', vscode.DiagnosticSeverity.Warning);
                         continue;
                     }
 
-                    const uri = vscode.Uri.file(file);
+                    if (directive[1].match(/^\d+$/)) {
+                        // Linemarker emitted by cpp, on the format # <line> "<file>" <flags>:
+                        const marker = value.match(/^(?:"((?:[^"\\]|\\.)*)"(?:\s+\d)*)?$/);
+                        if (!marker) {
+                            pushLineDiag(line, 'Invalid linemarker', vscode.DiagnosticSeverity.Error);
+                            continue;
+                        }
 
-                    const start = text.indexOf(value);
-                    result.includes.push({ loc: new vscode.Location(line.uri, new vscode.Range(line.number, start, line.number, start + value.length)), dst: uri });
+                        const offset = Number(directive[1]) - line.number - 2;
+                        result.defines['__LINE__'] = new LineMacro(offset);
+                        if (marker[1] === undefined) {
+                            origin = origin && { ...origin, offset };
+                            continue;
+                        }
 
-                    // inject the included file's lines. They will be the next to be processed:
-                    const doc = await vscode.workspace.openTextDocument(uri);
-                    const lines = readLines(doc);
-                    if (lines === null) {
-                        pushLineDiag(line, 'Unable to read file');
-                    } else {
-                        rawLines = [...lines, ...rawLines];
+                        // Special files like <built-in> and <command-line> have no source:
+                        const fileName = marker[1].replace(/\\(.)/g, '$1');
+                        const file = path.resolve(path.dirname(line.uri.fsPath), fileName);
+                        origin = { uri: fileName.match(/^<.*>$/) || !exists(file) ? undefined : vscode.Uri.file(file), offset };
+                        result.defines['__FILE__'] = new FileMacro(path.dirname(line.uri.fsPath), fileName);
+                        continue;
                     }
+
+                    if (directive[1] === 'line') {
+                        const lineDirective = resolve(value, result.defines, line.location).match(/^(\d+)(?:\s+"([^"]*)")?$/);
+                        if (!lineDirective) {
+                            pushLineDiag(line, 'Invalid #line directive', vscode.DiagnosticSeverity.Error);
+                            continue;
+                        }
+
+                        // The line number applies to the next line:
+                        result.defines['__LINE__'] = new LineMacro(Number(lineDirective[1]) - line.number - 2);
+                        if (lineDirective[2] !== undefined) {
+                            result.defines['__FILE__'] = new FileMacro(path.dirname(doc.uri.fsPath), lineDirective[2]);
+                        }
+
+                        continue;
+                    }
+                }
+
+                if (!text) {
                     continue;
                 }
 
-                if (directive[1] === 'error') {
-                    pushLineDiag(line, value ?? 'Error');
+                if (!scopes.every(c => c.condition)) {
                     continue;
                 }
-            }
 
-            if (!text) {
-                continue;
-            }
+                const processed = new Line(text, line.number, line.uri, findReplacements(text, result.defines, line.location));
+                processed.defines = snapshot ?? (snapshot = { ...result.defines });
+                if (origin?.uri) {
+                    processed.origin = new vscode.Location(origin.uri, new vscode.Position(line.number + origin.offset, 0));
+                }
 
-            if (!scopes.every(c => c.condition)) {
-                continue;
+                result.lines.push(processed);
+            } catch (e) {
+                pushLineDiag(line, 'Preprocessor crashed: ' + e);
             }
+        }
+
+        scopes.forEach(s => pushLineDiag(s.line, 'Unterminated scope'));
+        return files;
+    };
 
-            result.lines.push(new Line(text, line.number, line.uri, findReplacements(text, result.defines, line.location)));
-        } catch (e) {
-            pushLineDiag(line, 'Preprocessor crashed: ' + e);
+    /* Process an included file, or reuse the output from a previous inclusion in the same state. */
+    const includeFile = async (doc: vscode.TextDocument, lines: Line[], diags: DiagnosticsSet): Promise<string[]> => {
+        const key = cache && IncludeCache.key(doc, result.defines, once, includes);
+        const cached = cache?.get(doc.uri, key);
+        if (cached) {
+            result.lines.push(...cached.lines);
+            Object.assign(result.defines, cached.defines);
+            result.includes.push(...cached.includes);
+            result.inactive.push(...cached.inactive);
+            result.conditionals.push(...cached.conditionals);
+            result.directives.push(...cached.directives);
+            once.push(...cached.once);
+            diags.merge(cached.diags);
+            snapshot = undefined;
+            return cached.files;
         }
-    }
 
-    scopes.forEach(s => pushLineDiag(s.line, 'Unterminated scope'));
+        const prev = {
+            lines: result.lines.length,
+            defines: { ...result.defines },
+            includes: result.includes.length,
+            inactive: result.inactive.length,
+            conditionals: result.conditionals.length,
+            directives: result.directives.length,
+            once: once.length,
+        };
+        const includeDiags = new DiagnosticsSet();
+
+        // #line only applies to the file it's in:
+        const builtins = { line: result.defines['__LINE__'], file: result.defines['__FILE__'] };
+        result.defines['__LINE__'] = lineMacro;
+        result.defines['__FILE__'] = fileMacro;
+        const files = [doc.uri.toString(), ...await processLines(lines, includeDiags)];
+        result.defines['__LINE__'] = builtins.line;
+        result.defines['__FILE__'] = builtins.file;
+        snapshot = undefined;
+
+        diags.merge(includeDiags);
+        cache?.set(doc.uri, {
+            key,
+            files,
+            lines: result.lines.slice(prev.lines),
+            defines: toDefines(Object.values(result.defines).filter(define => prev.defines[define.name] !== define)),
+            includes: result.includes.slice(prev.includes),
+            inactive: result.inactive.slice(prev.inactive),
+            conditionals: result.conditionals.slice(prev.conditionals),
+            directives: result.directives.slice(prev.directives),
+            once: once.slice(prev.once),
+            diags: includeDiags,
+        });
+
+        return files;
+    };
+
+    await processLines(rawLines, diags);
 
     const procTime = process.hrtime(timeStart);
     // console.log(`Preprocessed ${doc.uri.fsPath} in ${(procTime[0] * 1e9 + procTime[1]) / 1000000} ms`);
@@ -527,6 +883,10 @@ export class Line {
     number: number;
     macros: MacroInstance[];
     location: vscode.Location;
+    /** Start of the line in the original source, according to the linemarkers in preprocessed files */
+    origin?: vscode.Location;
+    /** Macros that were defined when the line was processed */
+    defines?: Defines;
 
     get length(): number {
         return this.text.length;
@@ -600,6 +960,14 @@ export class Line {
         return this.macros.find(m => m.contains(pos.character));
     }
 
+    /** Copy of the line at another line number, for when lines are added or removed above it. */
+    moveTo(number: number) {
+        const line = new Line(this.raw, number, this.uri, this.macros);
+        line.origin = this.origin;
+        line.defines = this.defines;
+        return line;
+    }
+
     constructor(raw: string, number: number, uri: vscode.Uri, macros: MacroInstance[]=[]) {
         this.raw = raw;
         this.number = number;
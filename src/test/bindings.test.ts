@@ -0,0 +1,102 @@
+/*
+ * Copyright (c) 2020 Trond Snekvik
+ *
+ * SPDX-License-Identifier: MIT
+ */
+import * as vscode from 'vscode';
+import * as assert from 'assert';
+import * as path from 'path';
+import { TypeLoader } from '../types';
+import { lintBindings } from '../bindingLint';
+import { BindingProvider, keyPath, propertySourcesText, bindingChainText } from '../bindingNavigation';
+
+const bindingsDir = path.resolve(__dirname, '../../../src/test/bindings');
+const bindingPath = (name: string) => path.join(bindingsDir, name + '.yaml');
+
+suite('Bindings test suite', () => {
+	const loader = new TypeLoader();
+
+	suiteSetup(async () => {
+		await loader.addFolder(bindingsDir);
+	});
+
+	test('Reload', async () => {
+		// Every binding that includes the base binding depends on it:
+		assert.deepEqual((await loader.reload(bindingPath('base'))).sort(), ['base', 'vnd,bad', 'vnd,ctrl', 'vnd,dev']);
+		assert.deepEqual(await loader.reload(bindingPath('vnd,dev')), ['vnd,dev']);
+
+		// The reloaded bindings replace the old ones:
+		assert.equal(loader.get('base').length, 1);
+		assert.equal(loader.get('vnd,dev').length, 1);
+		assert.equal(loader.get('vnd,dev')[0].property('reg')?.type, 'array');
+
+		// Files outside the binding folders aren't loaded:
+		assert.deepEqual(await loader.reload(path.resolve(bindingsDir, '..', 'unknown.yaml')), []);
+	});
+
+	test('Lint', () => {
+		lintBindings(loader, file => file.startsWith(bindingsDir));
+		const diags = (name: string) => loader.diags.get(vscode.Uri.file(bindingPath(name))) ?? [];
+		['base', 'vnd,ctrl', 'vnd,dev'].forEach(name => assert.deepEqual(diags(name).map(diag => diag.message), [], name));
+
+		// The entries of the include list are on the include key's own line:
+		const [unknown, allowlist, type] = diags('vnd,bad');
+		assert.equal(unknown.message, 'Unknown binding missing');
+		assert.deepEqual([unknown.range.start.line, unknown.range.start.character, unknown.range.end.character], [4, 10, 22]);
+
+		assert.equal(allowlist.message, 'base has no property nope');
+		assert.deepEqual([allowlist.range.start.line, allowlist.range.start.character, allowlist.range.end.character], [4, 69, 73]);
+		assert.equal(allowlist.relatedInformation[0].location.uri.fsPath, bindingPath('base'));
+
+		assert.equal(type.message, 'Type int is incompatible with the array type of reg in base');
+		assert.equal(type.severity, vscode.DiagnosticSeverity.Error);
+		assert.equal(type.range.start.line, 7);
+	});
+
+	test('Navigation', async () => {
+		const doc = await vscode.workspace.openTextDocument(vscode.Uri.file(bindingPath('vnd,dev')));
+		const line = (text: string) => Array.from({ length: doc.lineCount }, (_, i) => doc.lineAt(i).text).findIndex(l => l.includes(text));
+		assert.deepEqual(keyPath(doc, line('- reg')), ['include', 'property-allowlist']);
+		assert.deepEqual(keyPath(doc, line('specifier-space')), ['properties', 'channels', 'specifier-space']);
+		assert.deepEqual(keyPath(doc, line('type: int')), ['child-binding', 'properties', 'priority', 'type']);
+
+		const provider = new BindingProvider(() => [loader]);
+		const position = (text: string) => new vscode.Position(line(text), doc.lineAt(line(text)).text.indexOf(text) + 1);
+
+		// Includes go to the included binding, and the properties in their lists go to the included declaration:
+		const include = await provider.provideDefinition(doc, position('base.yaml'), undefined) as vscode.Location;
+		assert.equal(include.uri.fsPath, bindingPath('base'));
+		const allowed = await provider.provideDefinition(doc, position('reg'), undefined) as vscode.Location;
+		assert.equal(allowed.uri.fsPath, bindingPath('base'));
+		assert.equal(allowed.range.start.line, 3);
+
+		const hover = await provider.provideHover(doc, position('channels:'), undefined);
+		assert.ok((hover.contents[0] as vscode.MarkdownString).value.startsWith('`channels`: `phandle-array`'));
+	});
+
+	test('Inheritance', () => {
+		const [dev] = loader.get('vnd,dev');
+		const [base] = loader.get('base');
+		const tree = dev.includeTree();
+		assert.equal(tree.type, dev);
+		assert.equal(tree.includes.length, 1);
+		assert.equal(tree.includes[0].type, base);
+		assert.deepEqual(tree.includes[0].include.allow, ['reg']);
+
+		// Unknown includes stay in the tree, without a type:
+		const [bad] = loader.get('vnd,bad');
+		assert.deepEqual(bad.includeTree().includes.map(include => [include.name, include.type?.name]), [['missing', undefined], ['base', 'base']]);
+
+		// The sources go from the first included declaration to the binding's own, and skip properties that aren't allowed:
+		assert.deepEqual(dev.propertySources('reg'), [base]);
+		assert.deepEqual(dev.propertySources('channels'), [dev]);
+		assert.deepEqual(dev.propertySources('status'), []);
+		assert.deepEqual(bad.propertySources('reg'), [base, bad]);
+		assert.ok(propertySourcesText(bad, 'reg').startsWith('Declared in [base.yaml]'));
+		assert.equal(propertySourcesText(dev, 'status'), undefined);
+
+		const chain = bindingChainText(dev).value;
+		assert.ok(chain.startsWith('**Binding:** `vnd,dev`'));
+		assert.ok(chain.includes('(allowlist: `reg`)'));
+	});
+});
@@ -0,0 +1,421 @@
+/*
+ * Copyright (c) 2020 Trond Snekvik
+ *
+ * SPDX-License-Identifier: MIT
+ */
+import * as vscode from 'vscode';
+import * as assert from 'assert';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+import { Parser, DTSCtx, ArrayValue, BytestringValue, IntValue, cellsValue } from '../dts';
+import { TypeLoader } from '../types';
+import { memoryMapOverview } from '../treeView';
+import { lint, LintCtx } from '../lint';
+import { DiagnosticsSet } from '../diags';
+import { nodeMacro, propertyMacro } from '../extension';
+
+const testDir = path.resolve(__dirname, '../../../src/test');
+
+async function parse(file: string, loader = new TypeLoader()) {
+	const parser = new Parser({}, [], () => loader);
+	return parser.addContext(vscode.Uri.file(path.join(testDir, file)));
+}
+
+suite('DeviceTree test suite', () => {
+	test('Cell widths', async () => {
+		const loader = new TypeLoader();
+		await loader.addFolder(path.join(testDir, 'bindings'));
+		const ctx = await parse('bits.dts', loader);
+		const uri = vscode.Uri.file(path.join(testDir, 'bits.dts'));
+		const node = ctx.node('/node/');
+
+		// The width is kept, and printed back in the output:
+		assert.deepEqual(node.property('calibration').value.map((v: ArrayValue) => v.bits), [16]);
+		assert.equal(node.property('calibration').valueString(), '/bits/ 16 <0x1234 0x5678>');
+		assert.equal(node.property('single').valueString(), '/bits/ 16 <0x10>');
+		assert.equal(((node.property('wide').value[0] as ArrayValue).val[0] as IntValue).bigVal, BigInt('0xffffffffffffffff'));
+
+		// Byte arrays are uint8-arrays:
+		assert.equal(node.property('bytes').type(), 'uint8-array');
+		assert.equal(node.property('calibration').type(), 'array');
+
+		// Cells must fit in the width, and references need 32-bit cells:
+		const line = (name: string) => node.property(name).loc.range.start.line;
+		assert.deepEqual(ctx.getDiags().diags(uri).map(diag => [diag.range.start.line, diag.message]), [
+			[line('too-big'), 'Value out of range for 8-bit array element'],
+			[line('ref'), 'References are only allowed in arrays with 32-bit cells'],
+			[line('bad-width'), 'Cell width must be 8, 16, 32 or 64 bits'],
+		]);
+
+		// Bindings only describe 32-bit cells:
+		const lintCtx: LintCtx = { diags: new DiagnosticsSet(), types: loader, ctx, gpioControllers: [], labels: {} };
+		lint(lintCtx);
+		const reg = ctx.node('/dev/').property('reg');
+		assert.ok(lintCtx.diags.diags(uri).some(diag => diag.range.start.line === reg.loc.range.start.line && diag.message === 'Property value type must be array, was /bits/ 16 array'));
+	});
+
+	test('Binary includes and memory reservations', async () => {
+		const ctx = await parse('incbin.dts');
+		const uri = vscode.Uri.file(path.join(testDir, 'incbin.dts'));
+		const node = ctx.node('/node/');
+		const dev = ctx.node('/dev@20000000/');
+		const line = (name: string) => node.property(name).loc.range.start.line;
+		const length = (name: string) => (node.property(name).value[0] as BytestringValue).length;
+
+		// The length comes from the file size, limited by the offset and size:
+		assert.equal(length('blob'), 16);
+		assert.equal(length('slice'), 8);
+		assert.equal(length('too-long'), 8);
+		assert.equal(node.property('slice').type(), 'uint8-array');
+		assert.equal(node.property('slice').valueString(), '/incbin/("blob.bin", 4, 8)');
+		assert.equal((node.property('blob').value[0] as BytestringValue).incbin.uri.fsPath, path.join(testDir, 'blob.bin'));
+
+		// Reservations outside the root node are kept, while the ones inside nodes are rejected:
+		assert.deepEqual(ctx.memreserves.map(r => `${r.addr.toString(true)} ${r.size.toString(true)}`), ['0x20000000 0x1000', '0x20000800 0x1000']);
+		const memreserveLine = dev.property('reg').loc.range.start.line + 1;
+		assert.deepEqual(ctx.getDiags().diags(uri).map(diag => [diag.range.start.line, diag.message]), [
+			[line('too-long'), 'Only 8 bytes available after offset 8'],
+			[line('missing'), 'No such file: missing.bin'],
+			[line('directory'), 'bindings is not a file'],
+			[line('partial'), 'Expected both offset and size, or neither'],
+			[memreserveLine, 'Memory reservations must be outside nodes'],
+		]);
+
+		// Reservations can't overlap each other or devices:
+		const lintCtx: LintCtx = { diags: new DiagnosticsSet(), types: new TypeLoader(), ctx, gpioControllers: [], labels: {} };
+		lint(lintCtx);
+		const collisions = lintCtx.diags.diags(uri).filter(diag => diag.message.includes('collides'));
+		assert.deepEqual(collisions.map(diag => [diag.range.start.line, diag.message]), [
+			[ctx.memreserves[1].loc.range.start.line, 'Reserved memory collides with another reservation (ends at 0x20001000)'],
+			[dev.property('reg').loc.range.start.line, 'Address range collides with reserved memory (0x20000000 - 0x20000fff)'],
+		]);
+	});
+
+	test('Overlay fragments', async () => {
+		const parser = new Parser({}, [], () => new TypeLoader());
+		const uri = vscode.Uri.file(path.join(testDir, 'plugin.dts'));
+		const ctx = await parser.addContext(vscode.Uri.file(path.join(testDir, 'plugin-base.dts')), [uri]);
+		const [overlay] = ctx.overlays;
+		const i2c = ctx.node('/soc/i2c@1000/');
+
+		// The __overlay__ contents are merged into the targets, while the fragments stay out of the tree:
+		assert.ok(overlay.plugin);
+		assert.equal(ctx.node('/fragment@0/'), undefined);
+		assert.equal(i2c.property('status').string, 'okay');
+		assert.deepEqual(i2c.children().map(child => child.path), ['/soc/i2c@1000/sensor@40/']);
+		assert.equal(ctx.node('/soc/i2c@1000/sensor@40/').property('reg').number, 0x40);
+
+		// Targets are resolved when the fragment is closed, so they may come after the __overlay__ node:
+		assert.equal(ctx.node('/soc/').property('label').string, 'Late');
+
+		const fragment = (name: string) => overlay.fragments.find(f => f.node.fullName === name);
+		assert.deepEqual(ctx.getDiags().diags(uri).map(diag => [diag.range.start.line, diag.message]), [
+			[fragment('fragment@2').node.property('target').loc.range.start.line, 'Unknown overlay target'],
+			[fragment('fragment@3').nameLoc.range.start.line + 1, 'Fragments can only contain __overlay__ nodes'],
+			[fragment('fragment@3').nameLoc.range.start.line, 'Fragment needs a target or target-path property'],
+		]);
+
+		// Both the fragments and their contents can be looked up in the file:
+		const targetLine = fragment('fragment@0').node.property('target').loc.range.start;
+		assert.equal(overlay.getEntryAt(targetLine, uri), fragment('fragment@0'));
+		const statusLine = i2c.property('status').loc.range.start;
+		assert.equal(overlay.getEntryAt(statusLine, uri).node, i2c);
+		assert.equal(overlay.getEntryAt(statusLine, uri).fragment, fragment('fragment@0'));
+	});
+
+	test('Expression values', async () => {
+		const ctx = await parse('expressions.dts');
+		const uri = vscode.Uri.file(path.join(testDir, 'expressions.dts'));
+		const node = ctx.node('/node/');
+		const value = (name: string) => ((node.property(name).value[0] as ArrayValue).val[0] as IntValue)?.bigVal;
+
+		// Expressions are evaluated with C semantics and 64-bit precision, in #if conditions as well as in values:
+		assert.equal(value('big'), BigInt(1) << BigInt(40));
+		assert.equal(value('division'), BigInt(-3));
+		assert.equal(value('ternary'), BigInt(2));
+		assert.equal(value('multiline'), BigInt(3));
+
+		// Errors point to the offending part of the expression:
+		const at = (name: string, text: string) => {
+			const line = node.property(name).loc.range.start.line;
+			const start = fs.readFileSync(uri.fsPath, 'utf-8').split('\n')[line].indexOf(text);
+			return [line, start, start + text.length];
+		};
+		assert.deepEqual(ctx.getDiags().diags(uri).map(diag => [[diag.range.start.line, diag.range.start.character, diag.range.end.character], diag.message]), [
+			[at('by-zero', '(3 - 3)'), 'Division by zero'],
+			[at('float', '1.5'), 'Floating constant "1.5" in integer expression'],
+		]);
+		assert.equal(value('by-zero'), undefined);
+	});
+
+	test('64-bit addresses', async () => {
+		const ctx = await parse('memory.dts');
+
+		const [sram] = ctx.node('/memory@100000000/').regs();
+		assert.equal(sram.addr, BigInt('0x100000000'));
+		assert.equal(sram.size, BigInt('0x10000'));
+		assert.equal(cellsValue(sram.addrs), sram.addr);
+
+		const [range] = ctx.node('/soc/').property('ranges').ranges;
+		assert.equal(range.child, BigInt(0));
+		assert.equal(range.parent, BigInt('0x100000000'));
+		assert.equal(range.size, BigInt('0x10000'));
+	});
+
+	test('Inactive regions', async () => {
+		const ctx = await parse('conditionals.dts');
+		const doc = await vscode.workspace.openTextDocument(vscode.Uri.file(path.join(testDir, 'conditionals.dts')));
+		const lineOf = (text: string) => Array.from({ length: doc.lineCount }, (_, i) => doc.lineAt(i).text).findIndex(line => line.includes(text));
+		const lines = (locs: vscode.Location[]) => locs.map(loc => [loc.range.start.line, loc.range.end.line]);
+
+		// The lines of branches that weren't taken are greyed out:
+		assert.deepEqual(lines(ctx.boardFile.inactive), [
+			[lineOf('<100000>'), lineOf('<100000>')],
+			[lineOf('disabled {'), lineOf('disabled {') + 1],
+		]);
+		assert.equal(ctx.node('/').property('clock-frequency').number, 1000000);
+		assert.equal(ctx.node('/disabled/'), undefined);
+
+		// Each branch folds from its directive to the line before the next one:
+		assert.deepEqual(lines(ctx.boardFile.conditionals), [
+			[lineOf('#ifdef'), lineOf('#else') - 1],
+			[lineOf('#else'), lineOf('#endif') - 1],
+			[lineOf('#if 0'), lineOf('disabled {') + 1],
+		]);
+
+		// Node entries span from their name to their closing brace, which stays visible when the node is folded:
+		assert.deepEqual(lines(ctx.node('/enabled/').entries.map(entry => entry.loc)), [[lineOf('enabled {'), lineOf('enabled {') + 2]]);
+	});
+
+	test('Omitted nodes', async () => {
+		const ctx = await parse('omit.dts');
+		const omitted = (path: string) => ctx.node(path).omitted;
+
+		// Nodes are kept if they're referenced by label or path, along with their children:
+		assert.ok(!omitted('/used/'));
+		assert.ok(!omitted('/used/child/'));
+		assert.ok(!omitted('/by-path/'));
+
+		// Unreferenced nodes are omitted with their children, even if they're marked in a later entry:
+		assert.ok(omitted('/unused/'));
+		assert.ok(omitted('/unused/child/'));
+		assert.ok(omitted('/late/'));
+
+		// Strings don't reference nodes, even if they contain paths:
+		assert.ok(omitted('/quoted/'));
+
+		// Omitted nodes are left out of the output, and faded out with a hint that points to the marker:
+		const root = ctx.node('/').toString(true);
+		assert.ok(root.includes('used: used {'));
+		assert.ok(!root.includes('unused {'));
+		const lintCtx: LintCtx = { diags: new DiagnosticsSet(), types: new TypeLoader(), ctx, gpioControllers: [], labels: {} };
+		lint(lintCtx);
+		const hints = lintCtx.diags.diags(vscode.Uri.file(path.join(testDir, 'omit.dts'))).filter(diag => diag.message.startsWith('Omitted'));
+		assert.deepEqual(hints.map(diag => diag.message), [
+			'Omitted, as nothing references /unused/',
+			'Omitted, as nothing references /unused/',
+			'Omitted, as nothing references /quoted/',
+			'Omitted, as nothing references &late',
+		]);
+		assert.ok(hints.every(diag => diag.tags.includes(vscode.DiagnosticTag.Unnecessary)));
+		assert.equal(hints[3].relatedInformation[0].location.range.start.line, ctx.node('/late/').omitIfNoRef.range.start.line);
+	});
+
+	test('Address translation', async () => {
+		const ctx = await parse('ranges.dts');
+		const cpuAddrs = (path: string) => ctx.node(path).cpuRegs().map(reg => reg.cpuAddr);
+
+		// Addresses are translated through each entry of the parents' ranges, and empty ranges map them directly:
+		assert.deepEqual(cpuAddrs('/bus-a/dev-a@0/'), [BigInt('0x40000000')]);
+		assert.deepEqual(cpuAddrs('/bus-a/dev-b@1000/'), [BigInt('0x50000000')]);
+		assert.deepEqual(cpuAddrs('/bus-b/dev-d@40000080/'), [BigInt('0x40000080')]);
+		assert.deepEqual(cpuAddrs('/bus-b/sub-bus@40000000/dev-c@0/'), [BigInt('0x40000000')]);
+
+		// Buses without ranges aren't mapped:
+		assert.deepEqual(cpuAddrs('/bus-c/dev-e@40000000/'), [undefined]);
+
+		// Collisions are found across buses, but nodes may overlap with their own children:
+		const lintCtx: LintCtx = { diags: new DiagnosticsSet(), types: new TypeLoader(), ctx, gpioControllers: [], labels: {} };
+		lint(lintCtx);
+		const collisions = lintCtx.diags.diags(vscode.Uri.file(path.join(testDir, 'ranges.dts'))).filter(diag => diag.message.startsWith('Address range collides'));
+		const regLine = (path: string) => ctx.node(path).property('reg').loc.range.start.line;
+		assert.deepEqual(collisions.map(diag => diag.range.start.line), [
+			regLine('/bus-b/sub-bus@40000000/'),
+			regLine('/bus-b/sub-bus@40000000/dev-c@0/'),
+			regLine('/bus-b/dev-d@40000080/'),
+		]);
+		assert.ok(collisions.every(diag => diag.message.startsWith('Address range collides with dev-a@0')));
+	});
+
+	test('Preprocessed files', async () => {
+		const ctx = await parse('linemarkers.dts.pre');
+		const uri = vscode.Uri.file(path.join(testDir, 'linemarkers.dts.pre'));
+		const original = vscode.Uri.file(path.join(testDir, 'plugin-base.dts'));
+		const origin = (loc: vscode.Location) => {
+			const o = ctx.origin(loc);
+			return o && [path.basename(o.uri.fsPath), o.range.start.line, o.range.start.character, o.range.end.line, o.range.end.character];
+		};
+
+		// Locations are mapped to the lines the linemarkers point to, keeping the columns:
+		const i2c = ctx.node('/soc/i2c@1000/');
+		assert.deepEqual(origin(i2c.entries[0].nameLoc), ['plugin-base.dts', 4, 8, 4, 16]);
+		assert.deepEqual(origin(i2c.property('status').loc), ['plugin-base.dts', 5, 3, 5, 9]);
+		assert.deepEqual(origin(ctx.node('/soc/').entries[0].nameLoc), ['plugin-base.dts', 3, 1, 3, 4]);
+		assert.equal(ctx.origin(i2c.entries[0].loc).uri.fsPath, original.fsPath);
+
+		// Built-in content has no original source:
+		assert.equal(ctx.origin(ctx.node('/chosen/').entries[0].nameLoc), undefined);
+		assert.equal(ctx.origin(new vscode.Location(original, new vscode.Position(0, 0))), undefined);
+		assert.ok(ctx.boardFile.has(uri));
+	});
+
+	test('Memory map', async () => {
+		const ctx = await parse('memory.dts');
+
+		const map = memoryMapOverview(ctx);
+		assert.equal(map.children.length, 1);
+
+		// The soc's regions are translated to CPU addresses and grouped under the memory node that contains them:
+		const [sram] = map.children;
+		assert.equal(sram.path, '/memory@100000000/');
+		assert.equal(sram.description, '0x100000000 • 64 kB');
+		assert.deepEqual(sram.children.map(item => item.name), [
+			'Free space @ 0x100000000',
+			'/soc/buf@1000/',
+			'Free space @ 0x100001100',
+		]);
+		assert.equal(sram.children[1].description, '0x100001000 • 256 bytes');
+
+		// Regions that aren't mapped through the soc's ranges are left out:
+		assert.ok(!sram.children.some(item => item.path === '/soc/unmapped@20000/'));
+	});
+
+	test('Specifier spaces', async () => {
+		const loader = new TypeLoader();
+		await loader.addFolder(path.join(testDir, 'bindings'));
+		const ctx = await parse('specifiers.dts', loader);
+		const uri = vscode.Uri.file(path.join(testDir, 'specifiers.dts'));
+		const dev = ctx.node('/dev/');
+
+		// The names property of the binding's specifier space takes precedence over the one named after the property:
+		const channels = dev.property('channels');
+		assert.equal(channels.specifierSpace, 'mbox');
+		assert.equal(channels.namesProperty?.name, 'mbox-names');
+		assert.deepEqual(channels.valueNames(), ['rx', 'tx']);
+		assert.equal(dev.property('mbox-names').namedProperty, channels);
+		assert.equal(dev.property('channel-names').namedProperty, undefined);
+
+		// The cell count comes from the #<specifier-space>-cells property:
+		const lintCtx: LintCtx = { diags: new DiagnosticsSet(), types: loader, ctx, gpioControllers: [], labels: {} };
+		lint(lintCtx);
+		const cellDiags = lintCtx.diags.diags(uri).filter(diag => diag.message.includes('parameter cell'));
+		assert.deepEqual(cellDiags.map(diag => [diag.range.start.line, diag.message]), [[dev.property('bad-mboxes').loc.range.start.line, '&ctrl expects 1 parameter cell.']]);
+
+		// Named entries get macros that refer to them by name:
+		const doc = await vscode.workspace.openTextDocument(uri);
+		const line = channels.loc.range.start.line;
+		const at = (text: string) => {
+			const pos = new vscode.Position(line, doc.lineAt(line).text.indexOf(text));
+			return new vscode.Range(pos, pos);
+		};
+		assert.equal(propertyMacro(ctx, channels, at('ctrl 2'), uri), 'DT_PHANDLE_BY_NAME(DT_PATH(dev), channels, tx)');
+		assert.equal(propertyMacro(ctx, channels, at('2>'), uri), 'DT_PHA_BY_NAME(DT_PATH(dev), channels, tx, channel)');
+		assert.equal(propertyMacro(ctx, channels, at('1>'), uri), 'DT_PHA_BY_NAME(DT_PATH(dev), channels, rx, channel)');
+
+		// Nodes without labels are referred to by their aliases or the chosen properties that point to them:
+		assert.equal(nodeMacro(ctx, ctx.node('/bus/')), 'DT_ALIAS(bus0)');
+		assert.equal(nodeMacro(ctx, ctx.node('/console/')), 'DT_CHOSEN(vnd_console)');
+		assert.equal(nodeMacro(ctx, ctx.node('/controller/')), 'DT_NODELABEL(ctrl)');
+	});
+
+	test('Incremental reparse', async () => {
+		const tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'devicetree-'));
+		const uri = vscode.Uri.file(path.join(tmp, 'reparse.dts'));
+		fs.writeFileSync(uri.fsPath, fs.readFileSync(path.join(testDir, 'reparse.dts')));
+
+		try {
+			const parser = new Parser({}, [], () => new TypeLoader());
+			const ctx = await parser.addContext(uri);
+			const doc = await vscode.workspace.openTextDocument(uri);
+			const uart = ctx.node('/soc/uart@1000/');
+			const define = ctx.defines['STATUS'];
+			const defineLine = define.definition.number;
+
+			const apply = (range: vscode.Range, text: string) => {
+				const edit = new vscode.WorkspaceEdit();
+				edit.replace(uri, range, text);
+				return vscode.workspace.applyEdit(edit);
+			};
+
+			const reparse = async (range: vscode.Range, text: string) => {
+				const rangeOffset = doc.offsetAt(range.start);
+				const rangeLength = doc.offsetAt(range.end) - rangeOffset;
+				await apply(range, text);
+				return parser.reparseEntry(ctx, { document: doc, contentChanges: [{ range, rangeOffset, rangeLength, text }] });
+			};
+
+			const lineOf = (text: string) => Array.from({ length: doc.lineCount }, (_, i) => doc.lineAt(i).text).findIndex(line => line.includes(text));
+			const rangeOf = (text: string) => {
+				const line = lineOf(text);
+				const start = doc.lineAt(line).text.indexOf(text);
+				return new vscode.Range(line, start, line, start + text.length);
+			};
+
+			// The context must end up just like it would if the edited file was parsed from scratch:
+			const loc = (loc: vscode.Location) => `${loc.range.start.line}:${loc.range.start.character}-${loc.range.end.line}:${loc.range.end.character}`;
+			const summary = (ctx: DTSCtx) => ({
+				nodes: ctx.nodeArray().map(node => [
+					node.path,
+					...node.sortedEntries.map(entry => `${entry.number}: ${loc(entry.loc)}`),
+					...node.properties().map(prop => `${prop.name} @ ${loc(prop.loc)} = ${prop.valueString()} @ ${loc(prop.valueLoc)}`),
+				].join('\n')).sort(),
+				lines: ctx.boardFile.lines.map(line => `${line.number}: ${line.text}` + line.macros.map(m => ` ${m.raw} @ ${m.macro.definition?.number}`).join('')),
+				defines: Object.values(ctx.defines).map(define => `${define.name} @ ${define.definition?.number}`).sort(),
+				diags: ctx.getDiags().toString().split('\n').sort(),
+			});
+
+			const assertParsed = async () => assert.deepEqual(summary(ctx), summary(await new Parser({}, [], () => new TypeLoader()).addContext(uri)));
+
+			// Pasting properties and nodes adds lines, and moves everything below:
+			const closing = lineOf('interrupts') + 1;
+			const status = lineOf('status');
+			assert.ok(await reparse(new vscode.Range(closing, 0, closing, 0), '\t\t\tcurrent-speed = <115200>; /* Baud */\n\t\t\tport {\n\t\t\t\tlabel = "Port";\n\t\t\t};\n'));
+			assert.equal(ctx.node('/soc/uart@1000/'), uart);
+			assert.equal(ctx.node('/soc/uart@1000/port/')?.property('label')?.string, 'Port');
+			assert.equal(uart.property('status').loc.range.start.line, status + 4);
+			assert.equal(ctx.defines['STATUS'].definition.number, defineLine + 4);
+			assert.equal(define.definition.number, defineLine, 'Defines may be shared, and must not be modified');
+			await assertParsed();
+
+			// Lines with comments and macros:
+			assert.ok(await reparse(rangeOf('IRQ>'), '(IRQ + 1)>'));
+			assert.equal(uart.property('interrupts').number, 6);
+			await assertParsed();
+
+			// Removing lines:
+			const port = lineOf('port {');
+			assert.ok(await reparse(new vscode.Range(port, 0, port + 3, 0), ''));
+			assert.equal(ctx.node('/soc/uart@1000/port/'), undefined);
+			await assertParsed();
+
+			// Renaming a node reparses its parent:
+			assert.ok(await reparse(rangeOf('led0'), 'led1'));
+			assert.equal(ctx.node('/leds/led0/'), undefined);
+			assert.equal(ctx.node('/leds/led1/')?.property('label')?.string, 'Green');
+			await assertParsed();
+
+			// Edits that add preprocessor directives or close nodes need a full reparse:
+			for (const text of ['#define LABEL "Red"\n', '\t\t};\n']) {
+				const line = lineOf('label');
+				assert.ok(!await reparse(new vscode.Range(line, 0, line, 0), text));
+				await apply(new vscode.Range(line, 0, line + 1, 0), '');
+			}
+
+			await assertParsed();
+		} finally {
+			fs.unlinkSync(uri.fsPath);
+			fs.rmdirSync(tmp);
+		}
+	});
+});
@@ -0,0 +1,4 @@
+#if __has_include_next(<next.h>)
+first
+#include_next <next.h>
+#endif
@@ -14,4 +14,15 @@ firstsecond test_first second_test test_firstsecond_test
 1, 2,
 1, 2
 current line: 69
-current file: "test.h"
\ No newline at end of file
+current file: "test.h"
+DEFINED WITHOUT PARENTHESES
+DEFINED IN ELIF
+HAS INCLUDE
+HAS INCLUDE IS DEFINED
+1
+1 + 2, 3
+1, 2, 3
+"a, b"
+MACRO is not expanded without arguments
+current line after #line: 1000
+current file after #line: "renamed.h"
\ No newline at end of file
@@ -8,9 +8,10 @@ import * as assert from 'assert';
 import { after } from 'mocha';
 import * as path from 'path';
 import * as fs from 'fs';
-import { preprocess, Define, MacroInstance, Line, toDefines } from '../preprocessor';
+import { preprocess, Define, MacroInstance, Line, toDefines, IncludeCache, expansionSteps } from '../preprocessor';
 import { evaluateExpr } from '../util';
 import { DiagnosticsSet } from '../diags';
+import { cellName } from '../dts';
 
 // bake: Output needs to be manually verified
 const BAKE_OUTPUT = false;
@@ -38,11 +39,63 @@ suite('Parser test suite', () => {
 			assert.equal(l.text.trim(), expected[i].trim());
 		});
 
+		// Lines in #if branches that weren't taken:
+		assert.deepEqual(result.inactive.map(loc => loc.range.start.line + 1), [13, 31, 77, 81, 83, 109]);
+		assert.ok(result.conditionals.some(loc => loc.range.start.line + 1 === 76 && loc.range.end.line + 1 === 77));
+
 		result = await preprocess(doc, toDefines([new Define('TEST_DIAGS', ''), new Define('TEST_VALID_DIRECTIVES', '')]), [], diags);
 		assert.equal(diags.length, 0, diags.toString());
 		result = await preprocess(doc, toDefines([new Define('TEST_DIAGS', ''), new Define('TEST_INVALID_DIRECTIVES', '')]), [], diags);
 	});
 
+	test('Include cache', async () => {
+		const extensionDevelopmentPath = path.resolve(__dirname, '../../../');
+		const inputFile = extensionDevelopmentPath + '/src/test/test.h';
+		const doc = await vscode.workspace.openTextDocument(vscode.Uri.file(inputFile));
+		const cache = new IncludeCache();
+
+		const first = await preprocess(doc, {}, [], new DiagnosticsSet(), cache);
+		const second = await preprocess(doc, {}, [], new DiagnosticsSet(), cache);
+		assert.deepEqual(second.lines.map(l => l.text), first.lines.map(l => l.text));
+		assert.deepEqual(Object.keys(second.defines), Object.keys(first.defines));
+
+		// The included file's lines are reused:
+		const included = first.lines.filter(l => l.uri.fsPath.endsWith('test.c'));
+		assert.ok(included.length > 0);
+		assert.ok(included.every(l => second.lines.includes(l)));
+
+		// Different incoming defines produce different output:
+		const third = await preprocess(doc, toDefines([new Define('TEST_DIAGS', '')]), [], new DiagnosticsSet(), cache);
+		assert.ok(third.lines.filter(l => l.uri.fsPath.endsWith('test.c')).every(l => !included.includes(l)));
+
+		// So do different include paths, as they decide which files the includes resolve to:
+		const fourth = await preprocess(doc, {}, [path.dirname(inputFile)], new DiagnosticsSet(), cache);
+		assert.ok(fourth.lines.filter(l => l.uri.fsPath.endsWith('test.c')).every(l => !included.includes(l)));
+
+		// Changes to the included file invalidate its output:
+		cache.invalidate(included[0].uri);
+		const fifth = await preprocess(doc, {}, [], new DiagnosticsSet(), cache);
+		assert.deepEqual(fifth.lines.map(l => l.text), first.lines.map(l => l.text));
+		assert.ok(fifth.lines.filter(l => l.uri.fsPath.endsWith('test.c')).every(l => !included.includes(l)));
+
+		// Unrelated files don't:
+		cache.invalidate(vscode.Uri.file(extensionDevelopmentPath + '/src/test/output.h'));
+		const sixth = await preprocess(doc, {}, [], new DiagnosticsSet(), cache);
+		assert.ok(sixth.lines.filter(l => l.uri.fsPath.endsWith('test.c')).every(l => fifth.lines.includes(l)));
+	});
+
+	test('Include next', async () => {
+		const includeDir = path.resolve(__dirname, '../../../src/test/include');
+		const doc = await vscode.workspace.openTextDocument({language: 'dts', content: '#include <next.h>'});
+		const diags = new DiagnosticsSet();
+
+		// Each #include_next continues the search in the include directory after the current file's:
+		const result = await preprocess(doc, {}, [path.join(includeDir, 'first'), path.join(includeDir, 'second')], diags);
+		assert.equal(diags.length, 0, diags.toString());
+		assert.deepEqual(result.lines.map(l => l.text), ['first', 'second', 'last']);
+		assert.deepEqual(result.lines.map(l => path.basename(path.dirname(l.uri.fsPath))), ['first', 'second', 'second']);
+	});
+
 	test('Nested macros', async () => {
 		const doc = await vscode.workspace.openTextDocument({language: 'dts', content: `
 		#define SUM(a, b) a + b
@@ -80,6 +133,81 @@ suite('Parser test suite', () => {
 		}).forEach((v) => assert.equal(v.actual, v.expected, v.line.raw));
 	});
 
+	test('Expansion steps', async () => {
+		const doc = await vscode.workspace.openTextDocument({language: 'dts', content: [
+			'#define NRF_FUN_UART_TX 0',
+			'#define NRF_FUN_POS 16',
+			'#define NRF_PIN_POS 0',
+			'#define NRF_PSEL(fun, port, pin) ((((port) * 32 + (pin)) << NRF_PIN_POS) | ((NRF_FUN_ ## fun) << NRF_FUN_POS))',
+			'NRF_PSEL(UART_TX, 0, 6)',
+			'#undef NRF_FUN_POS',
+			'#define NRF_FUN_POS 24',
+		].join('\n')});
+		const diags = new DiagnosticsSet();
+
+		const result = await preprocess(doc, {}, [], diags);
+		assert.equal(diags.length, 0, diags.toString());
+
+		// Each step expands a single level of macros, using the macros that were defined at the invocation:
+		const [line] = result.lines;
+		const steps = expansionSteps(line.raw, line.defines, line.location);
+		assert.deepEqual(steps.map(step => step.text), [
+			'((((0) * 32 + (6)) << NRF_PIN_POS) | ((NRF_FUN_UART_TX) << NRF_FUN_POS))',
+			'((((0) * 32 + (6)) << 0) | ((0) << 16))',
+		]);
+		assert.deepEqual(steps.map(step => step.macros.map(m => m.macro.name)), [
+			['NRF_PSEL'],
+			['NRF_PIN_POS', 'NRF_FUN_UART_TX', 'NRF_FUN_POS'],
+		]);
+
+		// The macros link back to their definitions:
+		assert.deepEqual(steps[1].macros.map(m => m.macro.definition.number), [2, 0, 1]);
+	});
+
+	test('Linemarkers', async () => {
+		const extensionDevelopmentPath = path.resolve(__dirname, '../../../');
+		const source = extensionDevelopmentPath + '/src/test/test.h';
+		const doc = await vscode.workspace.openTextDocument({language: 'dts', content: [
+			'# 1 "<built-in>"',
+			'/dts-v1/;',
+			`# 10 "${source}" 1`,
+			'first',
+			'',
+			'second',
+			`# 3 "${source}" 2`,
+			'third',
+		].join('\n')});
+		const diags = new DiagnosticsSet();
+
+		const result = await preprocess(doc, {}, [], diags);
+		assert.equal(diags.length, 0, diags.toString());
+		assert.deepEqual(result.lines.map(l => l.text), ['/dts-v1/;', 'first', 'second', 'third']);
+		assert.equal(result.lines[0].origin, undefined);
+		assert.deepEqual(result.lines.slice(1).map(l => l.origin.range.start.line + 1), [10, 12, 3]);
+		assert.ok(result.lines.slice(1).every(l => l.origin.uri.fsPath === vscode.Uri.file(source).fsPath));
+	});
+
+	test('Skipped conditions', async () => {
+		const doc = await vscode.workspace.openTextDocument({language: 'dts', content: [
+			'#if 0',
+			'#if SOME_FUNC(x)',
+			'first',
+			'#elif BAD(',
+			'second',
+			'#else',
+			'third',
+			'#endif',
+			'#elif 1',
+			'fourth',
+			'#endif',
+		].join('\n')});
+		const diags = new DiagnosticsSet();
+
+		const result = await preprocess(doc, {}, [], diags);
+		assert.equal(diags.length, 0, diags.toString());
+		assert.deepEqual(result.lines.map(l => l.text), ['fourth']);
+	});
+
 	test('Line remap', () => {
 		const line = new Line('foo MACRO_1 MACRO_2 abc', 0, vscode.Uri.file('test'), [
 			new MacroInstance(new Define('MACRO_1', 'bar'), 'MACRO_1', 'bar', 4),
@@ -116,7 +244,7 @@ suite('Parser test suite', () => {
 		assert.equal(3, evaluateExpr('(1 + 2)', position, []));
 		assert.equal(256, evaluateExpr('1 << 8', position, []));
 		assert.equal(256, evaluateExpr('(1 << 8)', position, []));
-		assert.equal(256, evaluateExpr('(1.0f << 8ULL)', position, []));
+		assert.equal(undefined, evaluateExpr('(1.0f << 8ULL)', position, []));
 		assert.equal(1, evaluateExpr('(1)', position, []));
 		assert.equal(3, evaluateExpr('(1) + (2)', position, []));
 		assert.equal(0, evaluateExpr('(1) + (2 + (3 * 5ULL)) - 18', position, []));
@@ -130,5 +258,37 @@ suite('Parser test suite', () => {
 		assert.equal(true, evaluateExpr('1 <= 2', position, []));
 		assert.equal(true, evaluateExpr('1 < 2', position, []));
 		assert.equal(98, evaluateExpr("'a' + 1", position, []));
+		assert.equal(3, evaluateExpr('7 / 2', position, []));
+		assert.equal(-3, evaluateExpr('-7 / 2', position, []));
+		assert.equal(-1, evaluateExpr('-7 % 3', position, []));
+		assert.equal(-1, evaluateExpr('-1 >> 1', position, []));
+		assert.equal(BigInt('0x7fffffffffffffff'), evaluateExpr('-1u >> 1', position, []));
+		assert.equal(BigInt('0xffffffffffffffff'), evaluateExpr('0xffffffffffffffffULL', position, []));
+		assert.equal(0, evaluateExpr('0xffffffffffffffff + 1', position, []));
+		assert.equal(BigInt('0x100000000'), evaluateExpr('1ull << 32', position, []));
+		assert.equal(false, evaluateExpr('-1 < 0u', position, []));
+		assert.equal(8, evaluateExpr('010', position, []));
+		assert.equal(2, evaluateExpr('1 ? 2 : 3', position, []));
+		assert.equal(4, evaluateExpr('0 ? 1 / 0 : 4', position, []));
+		assert.equal(0, evaluateExpr('0 && 1 / 0', position, []));
+		assert.equal(0, evaluateExpr('UNDEFINED', position, [], true));
+
+		const diags = new Array<vscode.Diagnostic>();
+		assert.equal(undefined, evaluateExpr('1 + 2 / (3 - 3)', position, diags));
+		assert.equal(diags.length, 1);
+		assert.deepEqual(diags[0].range, new vscode.Range(0, 8, 0, 15));
+		assert.equal(undefined, evaluateExpr('1 + level', position, diags));
+		assert.deepEqual(diags[1].range, new vscode.Range(0, 4, 0, 9));
+		assert.equal(undefined, evaluateExpr('1.5 + 1', position, diags));
+		assert.deepEqual(diags[2].range, new vscode.Range(0, 0, 0, 3));
+	});
+
+	test('Cell names', () => {
+		assert.equal(cellName('pwms'), 'pwm-cells');
+		assert.equal(cellName('cs-gpios'), 'gpio-cells');
+		assert.equal(cellName('gpio-map'), 'gpio-cells');
+		assert.equal(cellName('interrupts-extended'), 'interrupt-cells');
+		assert.equal(cellName('mboxes', 'mbox'), 'mbox-cells');
+		assert.equal(cellName('pwms', 'custom'), 'custom-cells');
 	});
 });
\ No newline at end of file
@@ -69,6 +69,42 @@ VAR_ARGS_OPT_ARGS(1, 2) // 1, 2
 current line: __LINE__
 current file: __FILE__
 
+#if defined YES && !defined NO
+DEFINED WITHOUT PARENTHESES
+#endif
+
+#if 0
+SHOULD NOT BE INCLUDED
+#elif defined(YES) && defined ( SOME_SUM )
+DEFINED IN ELIF
+#elif 1
+SHOULD NOT BE INCLUDED
+#else
+SHOULD NOT BE INCLUDED
+#endif
+
+#if __has_include("test.c") && !__has_include(<nonexistent.h>)
+HAS INCLUDE
+#endif
+
+#if defined(__has_include)
+HAS INCLUDE IS DEFINED
+#endif
+
+#define VA_OPT(a, ...) a __VA_OPT__(+ __VA_ARGS__)
+#define NAMED_VAR_ARGS(a, rest...) a, rest
+#define STRINGIFY_VAR_ARGS(...) #__VA_ARGS__
+
+VA_OPT(1) // 1
+VA_OPT(1, 2, 3) // 1 + 2, 3
+NAMED_VAR_ARGS(1, 2, 3) // 1, 2, 3
+STRINGIFY_VAR_ARGS(a, b) // "a, b"
+MACRO is not expanded without arguments
+
+#line 1000 "renamed.h"
+current line after #line: __LINE__
+current file after #line: __FILE__
+
 #ifdef TEST_DIAGS
 
 #ifdef TEST_VALID_DIRECTIVES
@@ -87,6 +123,11 @@ current file: __FILE__
 #undef NO_VALUE
 #undef NORMAL
 
+#if defined NORMAL_WITH_ARGS || __has_include_next(<test.c>)
+#endif
+#line 10
+#line 20 "file.h"
+
 #endif
 
 #ifdef TEST_INVALID_DIRECTIVES
@@ -15,4 +15,9 @@
 
 #ifndef // fail
 #endif
-
+#warning "This is a warning" // fail
+#line abc // fail
+#if defined // fail
+#endif
+#if __has_include(test.c) // fail
+#endif
@@ -0,0 +1,147 @@
+/*
+ * Copyright (c) 2020 Trond Snekvik
+ *
+ * SPDX-License-Identifier: MIT
+ */
+import * as vscode from 'vscode';
+import * as assert from 'assert';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+import { Installation, boardTarget, shieldOverlays, installations, installation as zephyrInstallation } from '../zephyr';
+
+// West workspace with a Zephyr tree and a few modules:
+const westDir = path.resolve(__dirname, '../../../src/test/west');
+const zephyrDir = path.join(westDir, 'zephyr');
+const boardsDir = path.join(zephyrDir, 'boards');
+
+suite('Zephyr test suite', () => {
+	const installation = new Installation(zephyrDir);
+
+	suiteSetup(async () => {
+		await installation.load();
+	});
+
+	test('Build directories', () => {
+		const tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'devicetree-'));
+		const appDir = path.join(tmp, 'my app');
+		const boardFile = path.join(boardsDir, 'vnd', 'brd', 'brd_soc1_cpuapp.dts');
+		const shieldOverlay = path.join(boardsDir, 'shields', 'shld', 'shld.overlay');
+		const dirs = ['build', 'build/zephyr', 'sysbuild', 'sysbuild/_sysbuild', 'sysbuild/app', 'sysbuild/app/zephyr'];
+		const files: {[file: string]: string} = {
+			// Build without a generated DeviceTree, with a bare HWMv2 board name:
+			'build/CMakeCache.txt': 'BOARD:STRING=solo\nSHIELD:STRING=shld\nEXTRA_DTC_OVERLAY_FILE:STRING=extra.overlay\n',
+			'build/zephyr/.config': 'CONFIG_ARCH="arm"\n',
+			// Sysbuild image with the dependencies cpp reported, including escaped spaces:
+			'sysbuild/app/CMakeCache.txt': `BOARD:STRING=brd/soc1/cpuapp\nAPPLICATION_SOURCE_DIR:PATH=${appDir}\nDTC_OVERLAY_FILE:STRING=app.overlay\n`,
+			'sysbuild/app/zephyr/zephyr.dts.d': [
+				'zephyr.dts.pre: ' + boardFile,
+				shieldOverlay,
+				path.join(appDir, 'app.overlay').replace(/ /g, '\\ '),
+				path.join(zephyrDir, 'dts', 'arm', 'vnd', 'soc1.dtsi'),
+			].join(' \\\n '),
+		};
+
+		dirs.forEach(dir => fs.mkdirSync(path.join(tmp, dir)));
+		Object.entries(files).forEach(([file, text]) => fs.writeFileSync(path.join(tmp, file), text));
+
+		try {
+			const [build] = installation.readBuild(path.join(tmp, 'build'));
+			assert.equal(build.board.name, 'solo');
+			assert.equal(build.board.arch, 'arm');
+			assert.equal(build.board.path, path.join(boardsDir, 'vnd', 'solo', 'solo_soc2.dts'));
+			assert.deepEqual(build.overlays, [shieldOverlay, path.join(tmp, 'build', 'extra.overlay')]);
+
+			const images = installation.readBuild(path.join(tmp, 'sysbuild'));
+			assert.equal(images.length, 1);
+			assert.equal(images[0].dir, path.join(tmp, 'sysbuild', 'app'));
+			assert.equal(images[0].board.name, 'brd');
+			assert.equal(images[0].board.qualifiers, 'soc1/cpuapp');
+			assert.equal(images[0].board.path, boardFile);
+			assert.deepEqual(images[0].overlays, [shieldOverlay, path.join(appDir, 'app.overlay')]);
+		} finally {
+			Object.keys(files).forEach(file => fs.unlinkSync(path.join(tmp, file)));
+			[...dirs].reverse().forEach(dir => fs.rmdirSync(path.join(tmp, dir)));
+			fs.rmdirSync(tmp);
+		}
+	});
+
+	test('Hardware model v2 boards', () => {
+		const targets = ['brd/soc1/cpuapp', 'brd/soc1/cpuapp/ns', 'brd/soc1/cpunet', 'solo/soc2'];
+		targets.forEach(target => assert.equal(boardTarget(installation.findBoard(target)), target));
+
+		// Variants only apply to their own CPU cluster:
+		assert.equal(installation.findBoard('brd/soc1/cpunet/ns'), undefined);
+
+		// The DeviceTree file names work as well:
+		const board = installation.findBoard('brd_soc1_cpuapp');
+		assert.equal(boardTarget(board), 'brd/soc1/cpuapp');
+		assert.equal(board.path, path.join(boardsDir, 'vnd', 'brd', 'brd_soc1_cpuapp.dts'));
+
+		// The architecture comes from the SoC files the board includes:
+		assert.ok(installation.boardIncludes(board).includes(path.join(zephyrDir, 'dts', 'arm')));
+		assert.equal(board.arch, 'arm');
+	});
+
+	test('Shields', () => {
+		const shieldDir = path.join(boardsDir, 'shields', 'shld');
+		const shield = installation.findShield(path.join(shieldDir, 'shld.overlay'));
+		assert.equal(shield?.name, 'shld');
+		assert.equal(shield.fullName, 'Test shield');
+		assert.equal(shield.vendor, 'vnd');
+
+		// Board specific overlays belong to the shield too:
+		assert.equal(installation.findShield(path.join(shieldDir, 'boards', 'shld', 'brd_soc1_cpuapp.overlay')), shield);
+
+		// The board overlays follow the shield's own overlay, from the least to the most specific:
+		assert.deepEqual(shieldOverlays(shield, 'brd/soc1/cpuapp'), [
+			path.join(shieldDir, 'shld.overlay'),
+			path.join(shieldDir, 'boards', 'brd.overlay'),
+			path.join(shieldDir, 'boards', 'shld', 'brd_soc1_cpuapp.overlay'),
+		]);
+		assert.deepEqual(shieldOverlays(shield, 'solo/soc2'), [path.join(shieldDir, 'shld.overlay')]);
+	});
+
+	test('Snippets', () => {
+		const snippetDir = path.join(zephyrDir, 'snippets', 'snip');
+		const overlays = (target: string) => installation.snippetOverlays('snip', installation.findBoard(target));
+
+		// Board entries match either the board name or a regular expression for the full target:
+		assert.deepEqual(overlays('solo/soc2'), [path.join(snippetDir, 'snip.overlay'), path.join(snippetDir, 'solo.overlay')]);
+		assert.deepEqual(overlays('brd/soc1/cpuapp'), [path.join(snippetDir, 'snip.overlay'), path.join(snippetDir, 'cpuapp.overlay')]);
+		assert.deepEqual(overlays('brd/soc1/cpunet'), [path.join(snippetDir, 'snip.overlay')]);
+
+		assert.deepEqual(installation.snippetOverlays('unknown', installation.findBoard('solo')), []);
+	});
+
+	test('West manifest', () => {
+		// The manifest's own projects take precedence over imported ones, and projects that aren't cloned are left out:
+		const modules = ['zephyr', 'modules/hal', 'modules/vendor', 'modules/lib'].map(dir => path.join(westDir, dir));
+		assert.deepEqual(installation.modules.map(module => path.normalize(module)), modules);
+
+		// Modules declare their roots in their module.yml files:
+		const lib = path.join(westDir, 'modules', 'lib');
+		assert.ok(installation.moduleRoots('board_root').map(root => path.normalize(root)).includes(lib));
+		assert.ok(installation.moduleRoots('dts_root').map(root => path.normalize(root)).includes(path.join(lib, 'dts')));
+		assert.ok(installation.moduleRoots('dts_root').map(root => path.normalize(root)).includes(zephyrDir));
+	});
+
+	test('Installations', () => {
+		assert.equal(installation.version, '3.7.0');
+		assert.equal(installation.name, 'Zephyr 3.7.0');
+
+		// Bare board names only match boards with a single target:
+		assert.equal(boardTarget(installation.findBoard('solo')), 'solo/soc2');
+		assert.equal(installation.findBoard('brd'), undefined);
+
+		// Files outside the workspace folders belong to the installation with the module they're in:
+		const other = new Installation(path.join(westDir, 'other'));
+		installations.push(other, installation);
+		try {
+			assert.equal(zephyrInstallation(vscode.Uri.file(path.join(westDir, 'modules', 'lib', 'zephyr', 'module.yml'))), installation);
+			assert.equal(zephyrInstallation(vscode.Uri.file(path.join(os.tmpdir(), 'app.overlay'))), other);
+		} finally {
+			installations.splice(installations.indexOf(other), 2);
+		}
+	});
+});
@@ -7,7 +7,12 @@ import * as vscode from 'vscode';
 import * as path from 'path';
 import { DTSCtx, DTSFile, Node, Parser, PHandle, Property} from './dts';
 import { countText, sizeString } from './util';
-import { resolveBoardInfo } from './zephyr';
+import { boardTarget, installations, resolveBoardInfo } from './zephyr';
+
+/** Nodes that are part of the output, skipping unreferenced /omit-if-no-ref/ nodes */
+function presentNodes(ctx: DTSCtx) {
+    return ctx.nodeArray().filter(n => !n.omitted);
+}
 
 function iconPath(name: string) {
     return {
@@ -53,6 +58,75 @@ class TreeInfoItem {
     }
 }
 
+/** Overview of the memory regions at their CPU addresses, nested in the memory areas that contain them */
+export function memoryMapOverview(ctx: DTSCtx) {
+    type Region = { node: Node, name: string, start: bigint, size: bigint };
+
+    const map = new TreeInfoItem(ctx, 'Memory map', 'memory');
+    const isMemoryArea = (n: Node) => n.type?.is('mmio-sram') || n.type?.is('zephyr,memory-region') || n.property('device_type')?.string === 'memory';
+
+    const regions = new Array<Region>();
+    presentNodes(ctx).filter(n => n.enabled() && !n.deleted).forEach(n => {
+        const names = n.property('reg-names')?.stringArray;
+        n.cpuRegs()?.forEach((reg, i, all) => {
+            if (reg.cpuAddr !== undefined) {
+                regions.push({ node: n, name: all.length > 1 ? `${n.uniqueName} (${names?.[i] ?? i})` : n.uniqueName, start: reg.cpuAddr, size: reg.size });
+            }
+        });
+    });
+
+    regions.sort((a, b) => Number(a.start - b.start));
+
+    // Group regions in the smallest memory area that contains them:
+    const containers = new Map(regions.map((r, i) => [r, regions
+        .filter((a, j) => j !== i && isMemoryArea(a.node) && r.start >= a.start && r.start + r.size <= a.start + a.size && (a.size > r.size || j < i))
+        .sort((a, b) => Number(a.size - b.size))[0]]));
+
+    const free = (start: bigint, size: bigint) => new TreeInfoItem(ctx, `Free space @ 0x${start.toString(16)}`, undefined, sizeString(size));
+
+    const addRegions = (parent: TreeInfoItem, members: Region[], start?: bigint, end?: bigint) => {
+        let offset = start;
+        members.forEach(r => {
+            if (offset !== undefined && r.start > offset) {
+                parent.addChild(free(offset, r.start - offset));
+            }
+
+            const item = new TreeInfoItem(ctx, r.name, undefined, `0x${r.start.toString(16)}`);
+            item.path = r.node.path;
+            item.tooltip = r.node.type?.description;
+            if (r.size) {
+                item.description += ` • ${sizeString(r.size)}`;
+                item.tooltip = `0x${r.start.toString(16)} - 0x${(r.start + r.size - BigInt(1)).toString(16)}` + (item.tooltip ? `\n${item.tooltip}` : '');
+            }
+
+            const overlap = members.find(o => o !== r && o.start < r.start + r.size && r.start < o.start + o.size);
+            if (overlap) {
+                item.description += ` • overlaps ${overlap.name}!`;
+            }
+
+            const contents = regions.filter(c => containers.get(c) === r);
+            if (contents.length) {
+                addRegions(item, contents, r.start, r.start + r.size);
+            }
+
+            parent.addChild(item);
+            if (offset === undefined || r.start + r.size > offset) {
+                offset = r.start + r.size;
+            }
+        });
+
+        if (offset !== undefined && end !== undefined && offset < end) {
+            parent.addChild(free(offset, end - offset));
+        }
+    };
+
+    addRegions(map, regions.filter(r => !containers.get(r)));
+
+    if (map.children.length) {
+        return map;
+    }
+}
+
 type NestedInclude = { uri: vscode.Uri, file: DTSFile };
 type DTSTreeItem = DTSCtx | DTSFile | NestedInclude | TreeInfoItem;
 
@@ -101,13 +175,7 @@ export class DTSTreeView implements
         await this.parser.stable();
         try {
             if (element instanceof DTSCtx) {
-                let file: DTSFile;
-                if (element.overlays.length) {
-                    file = element.overlays[element.overlays.length - 1];
-                } else {
-                    file = element.boardFile;
-                }
-
+                const file = element.appOverlay ?? element.boardFile;
                 if (!file) {
                     return;
                 }
@@ -116,6 +184,13 @@ export class DTSTreeView implements
                     this.parser.currCtx === element ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed);
                 item.contextValue = 'devicetree.ctx';
                 item.tooltip = 'DeviceTree Context';
+                if (element.zephyr) {
+                    item.tooltip += `\n${element.zephyr.name}: ${element.zephyr.root}`;
+                    // Only worth the space if the workspace has several installations:
+                    if (installations.length > 1) {
+                        item.description = element.zephyr.name;
+                    }
+                }
                 item.id = ['devicetree', 'ctx', element.name, 'file', file.uri.fsPath.replace(/[/\\]/g, '.')].join('.');
                 item.iconPath = iconPath('devicetree-inner');
                 return item;
@@ -131,15 +206,26 @@ export class DTSTreeView implements
                 item.id === ['devicetree', 'file', element.ctx.name, element.uri.fsPath.replace(/[/\\]/g, '.')].join('.');
                 if (element.ctx.boardFile === element) {
                     item.iconPath = iconPath('circuit-board');
-                    item.tooltip = 'Board file';
+                    item.tooltip = element.ctx.board ? `Board file for ${boardTarget(element.ctx.board)}` : 'Board file';
                     item.contextValue = 'devicetree.board';
+                } else if (element.ctx.snippet(element)) {
+                    item.label = element.ctx.snippet(element);
+                    item.description = path.basename(element.uri.fsPath);
+                    item.iconPath = iconPath('overlay');
+                    item.tooltip = 'Snippet overlay';
+                    item.contextValue = 'devicetree.snippet';
                 } else {
-                    if (element.ctx.overlays.indexOf(element) === element.ctx.overlays.length - 1) {
+                    if (element === element.ctx.appOverlay) {
                         item.iconPath = iconPath('overlay');
                         item.contextValue = 'devicetree.overlay';
                     } else {
                         item.iconPath = iconPath('shield');
                         item.contextValue = 'devicetree.shield';
+                        const shield = element.ctx.zephyr?.findShield(element.uri.fsPath);
+                        if (shield) {
+                            item.label = shield.name;
+                            item.description = shield.overlay === path.normalize(element.uri.fsPath) ? shield.fullName : path.basename(element.uri.fsPath);
+                        }
                     }
                     item.tooltip = 'Overlay';
                 }
@@ -162,7 +248,7 @@ export class DTSTreeView implements
                     item.command = {
                         command: 'devicetree.goto',
                         title: 'Show',
-                        arguments: [element.path, element.ctx.files.pop().uri]
+                        arguments: [element.path, (element.ctx.appOverlay ?? element.ctx.boardFile).uri]
                     };
                 }
 
@@ -257,7 +343,7 @@ export class DTSTreeView implements
 
     private gpioOverview(ctx: DTSCtx) {
         const gpio = new TreeInfoItem(ctx, 'GPIO', 'gpio');
-        ctx.nodeArray().filter(n => n.pins).forEach((n, _, all) => {
+        presentNodes(ctx).filter(n => n.pins).forEach((n, _, all) => {
             const controller = new TreeInfoItem(ctx, n.uniqueName);
             n.pins.forEach((p, i) => {
                 if (p) {
@@ -295,7 +381,7 @@ export class DTSTreeView implements
 
     private flashOverview(ctx: DTSCtx) {
         const flash = new TreeInfoItem(ctx, 'Flash', 'flash');
-        ctx.nodeArray()
+        presentNodes(ctx)
             .filter(n => n.parent && n.type.is('fixed-partitions'))
             .forEach((n, _, all) => {
                 let parent = flash;
@@ -305,7 +391,7 @@ export class DTSTreeView implements
                 }
 
                 const regs = n.parent.regs();
-                const capacity = regs?.[0]?.sizes[0]?.val;
+                const capacity = regs?.[0]?.size;
                 if (capacity !== undefined) {
                     parent.description = sizeString(capacity);
                 }
@@ -313,32 +399,35 @@ export class DTSTreeView implements
                 parent.path = n.parent.path;
                 parent.tooltip = n.type?.description;
 
-                let offset = 0;
-                n.children().filter(c => c.regs()?.[0]?.addrs.length === 1).sort((a, b) => (a.regs()[0].addrs[0]?.val ?? 0) - (b.regs()[0].addrs[0]?.val ?? 0)).forEach(c => {
-                    const reg = c.regs();
-                    const start = reg[0].addrs[0].val;
-                    const size = reg[0].sizes?.[0]?.val ?? 0;
-                    if (start > offset) {
-                        parent.addChild(new TreeInfoItem(ctx, `Free space @ 0x${offset.toString(16)}`, undefined, sizeString(start - offset)));
-                    }
+                let offset = BigInt(0);
+                n.children()
+                    .filter(c => !c.omitted && c.regs()?.length)
+                    .sort((a, b) => Number(a.regs()[0].addr - b.regs()[0].addr))
+                    .forEach(c => {
+                        const reg = c.regs()[0];
+                        const start = reg.addr;
+                        const size = reg.size;
+                        if (start > offset) {
+                            parent.addChild(new TreeInfoItem(ctx, `Free space @ 0x${offset.toString(16)}`, undefined, sizeString(start - offset)));
+                        }
 
-                    const partition = new TreeInfoItem(ctx, c.property('label')?.value?.[0]?.val as string ?? c.uniqueName);
-                    partition.description = sizeString(size);
-                    if (start < offset) {
-                        partition.description += ` - ${sizeString(offset - start)} overlap!`;
-                    }
-                    partition.tooltip = `0x${start.toString(16)} - 0x${(start + size - 1).toString(16)}`;
-                    partition.path = c.path;
+                        const partition = new TreeInfoItem(ctx, c.property('label')?.value?.[0]?.val as string ?? c.uniqueName);
+                        partition.description = sizeString(size);
+                        if (start < offset) {
+                            partition.description += ` - ${sizeString(offset - start)} overlap!`;
+                        }
+                        partition.tooltip = `0x${start.toString(16)} - 0x${(start + size - BigInt(1)).toString(16)}`;
+                        partition.path = c.path;
 
-                    partition.addChild(new TreeInfoItem(ctx, 'Start', undefined, reg[0].addrs[0].toString(true)));
+                        partition.addChild(new TreeInfoItem(ctx, 'Start', undefined, reg.addrs.length === 1 ? reg.addrs[0].toString(true) : `0x${start.toString(16)}`));
 
-                    if (size) {
-                        partition.addChild(new TreeInfoItem(ctx, 'Size', undefined, sizeString(reg[0].sizes[0].val)));
-                    }
+                        if (size) {
+                            partition.addChild(new TreeInfoItem(ctx, 'Size', undefined, sizeString(size)));
+                        }
 
-                    parent.addChild(partition);
-                    offset = start + size;
-                });
+                        parent.addChild(partition);
+                        offset = start + size;
+                    });
 
                 if (capacity !== undefined && offset < capacity) {
                     parent.addChild(new TreeInfoItem(ctx, `Free space @ 0x${offset.toString(16)}`, undefined, sizeString(capacity - offset)));
@@ -347,7 +436,7 @@ export class DTSTreeView implements
 
         // Some devices don't have partitions defined. For these, show simple flash entries:
         if (!flash.children.length) {
-            ctx.nodeArray().filter(n => n.type?.is('soc-nv-flash')).forEach((n, _, all) => {
+            presentNodes(ctx).filter(n => n.type?.is('soc-nv-flash')).forEach((n, _, all) => {
                 let parent = flash;
                 if (all.length > 1) {
                     parent = new TreeInfoItem(ctx, n.uniqueName);
@@ -356,17 +445,17 @@ export class DTSTreeView implements
 
                 parent.path = n.path;
 
-                n.regs()?.filter(reg => reg.addrs.length === 1 && reg.sizes.length === 1).forEach((reg, i, areas) => {
+                n.regs()?.forEach((reg, i, areas) => {
                     let area = parent;
                     if (areas.length > 1) {
                         area = new TreeInfoItem(ctx, `Area ${i+1}`);
                         parent.addChild(area);
                     }
 
-                    area.description = sizeString(reg.sizes[0].val);
+                    area.description = sizeString(reg.size);
 
-                    area.addChild(new TreeInfoItem(ctx, 'Start', undefined, reg.addrs[0].toString(true)));
-                    area.addChild(new TreeInfoItem(ctx, 'Size', undefined, sizeString(reg.sizes[0].val)));
+                    area.addChild(new TreeInfoItem(ctx, 'Start', undefined, reg.addrs.length === 1 ? reg.addrs[0].toString(true) : `0x${reg.addr.toString(16)}`));
+                    area.addChild(new TreeInfoItem(ctx, 'Size', undefined, sizeString(reg.size)));
                 });
             });
         }
@@ -377,7 +466,7 @@ export class DTSTreeView implements
     }
 
     private interruptOverview(ctx: DTSCtx) {
-        const nodes = ctx.nodeArray();
+        const nodes = presentNodes(ctx);
         const interrupts = new TreeInfoItem(ctx, 'Interrupts', 'interrupts');
         const controllers = nodes.filter(n => n.property('interrupt-controller'));
         const controllerItems = controllers.map(n => ({ item: new TreeInfoItem(ctx, n.uniqueName), children: new Array<{ node: Node, interrupts: Property }>() }));
@@ -446,7 +535,7 @@ export class DTSTreeView implements
 
     private busOverview(ctx: DTSCtx) {
         const buses = new TreeInfoItem(ctx, 'Buses', 'bus');
-        ctx.nodeArray().filter(node => node.type?.bus).forEach(node => {
+        presentNodes(ctx).filter(node => node.type?.bus).forEach(node => {
             const bus = new TreeInfoItem(ctx, node.uniqueName, undefined, '');
             if (!bus.name.toLowerCase().includes(node.type.bus.toLowerCase())) {
                 bus.description = node.type.bus + ' ';
@@ -455,6 +544,11 @@ export class DTSTreeView implements
             bus.path = node.path;
             bus.tooltip = node.type?.description;
 
+            const busAddr = node.cpuRegs()?.[0]?.cpuAddr;
+            if (busAddr !== undefined) {
+                bus.addChild(new TreeInfoItem(ctx, 'address:', undefined, `0x${busAddr.toString(16)}`));
+            }
+
             const busProps = [/.*-speed$/, /.*-pin$/, /^clock-frequency$/, /^hw-flow-control$/, /^dma-channels$/];
             node.uniqueProperties().filter(prop => prop.value.length > 0 && busProps.some(regex => prop.name.match(regex))).forEach(prop => {
                 const infoItem = new TreeInfoItem(ctx, prop.name.replace(/-/g, ' ') + ':', undefined, prop.value.map(v => v.toString(true)).join(', '));
@@ -464,7 +558,7 @@ export class DTSTreeView implements
 
             const nodesItem = new TreeInfoItem(ctx, 'Nodes');
 
-            node.children().forEach(child => {
+            node.children().filter(child => !child.omitted).forEach(child => {
                 const busEntry = new TreeInfoItem(ctx, child.localUniqueName);
                 busEntry.path = child.path;
                 busEntry.tooltip = child.type?.description;
@@ -472,6 +566,11 @@ export class DTSTreeView implements
                 if (child.address !== undefined) {
                     busEntry.description = `@ 0x${child.address.toString(16)}`;
 
+                    const cpuAddr = child.cpuRegs()?.[0]?.cpuAddr;
+                    if (cpuAddr !== undefined) {
+                        busEntry.addChild(new TreeInfoItem(ctx, 'CPU address', undefined, `0x${cpuAddr.toString(16)}`));
+                    }
+
                     // SPI nodes have chip selects
                     if (node.type.bus === 'spi') {
                         const csGpios = node.property('cs-gpios');
@@ -504,7 +603,7 @@ export class DTSTreeView implements
     }
 
     private ioChannelOverview(type: 'ADC' | 'DAC', ctx: DTSCtx) {
-        const nodes = ctx.nodeArray();
+        const nodes = presentNodes(ctx);
         const adcs = new TreeInfoItem(ctx, type + 's', type.toLowerCase());
         nodes.filter(node => node.type?.is(type.toLowerCase() + '-controller')).forEach(node => {
             const controller = new TreeInfoItem(ctx, node.uniqueName);
@@ -543,7 +642,7 @@ export class DTSTreeView implements
     }
 
     private clockOverview(ctx: DTSCtx) {
-        const nodes = ctx.nodeArray();
+        const nodes = presentNodes(ctx);
         const clocks = new TreeInfoItem(ctx, 'Clocks', 'clock');
         nodes.filter(node => node.type?.is('clock-controller')).forEach(node => {
             const clock = new TreeInfoItem(ctx, node.uniqueName);
@@ -590,6 +689,7 @@ export class DTSTreeView implements
         details.addChild(this.boardOverview(ctx));
         details.addChild(this.gpioOverview(ctx));
         details.addChild(this.flashOverview(ctx));
+        details.addChild(memoryMapOverview(ctx));
         details.addChild(this.interruptOverview(ctx));
         details.addChild(this.busOverview(ctx));
         details.addChild(this.ioChannelOverview('ADC', ctx));
@@ -7,9 +7,10 @@ import * as yaml from 'js-yaml';
 import * as glob from 'glob';
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { readFile } from 'fs';
+import { existsSync, readFile } from 'fs';
 import { Node } from './dts';
 import { DiagnosticsSet } from './diags';
+import { invalidateBindingFile } from './bindingFile';
 
 export interface PropertyType {
     name: string;
@@ -20,6 +21,7 @@ export interface PropertyType {
     type: string | string[];
     description?: string;
     constraint?: string;
+    'specifier-space'?: string;
     node?: NodeType;
 }
 
@@ -30,13 +32,16 @@ interface PropertyFilter {
     block?: string[];
 }
 
-interface TypeInclude extends PropertyFilter {
+export interface TypeInclude extends PropertyFilter {
     name: string;
     allow?: string[];
     block?: string[];
     childBinding?: boolean;
 }
 
+/** Binding in the include tree of a type, along with the include specification that pulled it in, if any */
+export type IncludeTree = { name: string, type?: NodeType, include?: TypeInclude, includes: IncludeTree[] };
+
 function filterProperties(props: PropertyTypeMap, filter: PropertyFilter): string[] {
     if (!filter.allow && !filter.block) {
         return Object.keys(props);
@@ -122,7 +127,7 @@ export class NodeType {
             // Transfer the child binding property list to the child type, so it can
             // handle it the same way parent types do:
             tree['child-binding'].include = childIncludes;
-            this.child = new NodeType(tree['child-binding']);
+            this.child = new NodeType(tree['child-binding'], filename);
             this.child._isChild = true;
         }
 
@@ -142,6 +147,80 @@ export class NodeType {
         return this.inclusions.find(i => i.name === name);
     }
 
+    /// Whether this type lists the given type in its includes, even if the included type isn't loaded
+    dependsOn(name: string) {
+        return this._include.some(i => i.name === name);
+    }
+
+    /// The includes as written in the binding
+    get includeSpecs(): ReadonlyArray<TypeInclude> {
+        return this._include;
+    }
+
+    /// Properties declared in the binding itself, without the included properties
+    get ownProperties(): PropertyType[] {
+        return Object.values(this._properties);
+    }
+
+    /// Cell names declared in the binding itself, like gpio-cells
+    get ownCells(): {[cell: string]: string[]} {
+        return this._cells;
+    }
+
+    /// Whether the binding declares a compatible, as opposed to being named after its file
+    get hasCompatible() {
+        return 'compatible' in this.tree;
+    }
+
+    /// Whether this is the child-binding of another type. Child bindings are in their parent's file.
+    get isChild() {
+        return this._isChild;
+    }
+
+    /// This type and the bindings it includes, recursively. Includes of unknown bindings have no type.
+    includeTree(include?: TypeInclude, visited: NodeType[] = []): IncludeTree {
+        visited = [...visited, this];
+        return {
+            name: this.name,
+            type: this,
+            include,
+            includes: this._include.flatMap(spec => {
+                const types = this.loader?.get(spec.name) ?? [];
+                if (!types.length) {
+                    return [{ name: spec.name, include: spec, includes: [] }];
+                }
+
+                // Child bindings include the child bindings of the included types, which they may not have:
+                return types
+                    .map(type => this._isChild ? type.child : type)
+                    .filter(type => type && !visited.includes(type))
+                    .map(type => type.includeTree(spec, visited));
+            }),
+        };
+    }
+
+    /// Bindings that declare the given property, from the first included binding to this one
+    propertySources(name: string): NodeType[] {
+        const sources = new Array<NodeType>();
+        this._include.forEach(spec => {
+            this.loader?.get(spec.name).forEach(type => {
+                if (this._isChild) {
+                    type = type.child;
+                }
+
+                if (type && filterProperties(type.propMap, spec).includes(name)) {
+                    sources.push(...type.propertySources(name).filter(source => !sources.includes(source)));
+                }
+            });
+        });
+
+        if (name in this._properties) {
+            sources.push(this);
+        }
+
+        return sources;
+    }
+
     cells(type: string): string[] {
         if (type.endsWith('-cells')) {
             type = type.slice(0, type.length - '-cells'.length);
@@ -150,6 +229,11 @@ export class NodeType {
         return this._cells[type] ?? this.inclusions.find(i => i.cells(type))?.cells(type);
     }
 
+    /// Specifier space of a phandle-array property, if the binding overrides the one derived from the property name
+    specifierSpace(prop: string): string | undefined {
+        return this.property(prop)?.['specifier-space'];
+    }
+
     /// Whether this type matches the given type string, either directly or through inclusions
     is(type: string): boolean {
         return this.name === type || !!this.includes(type);
@@ -490,18 +574,15 @@ export class TypeLoader {
         type.setLoader(this);
     }
 
-    async addFolder(folder: string) {
-        this.folders.push(folder);
-        const g = glob.sync('**/*.yaml', { cwd: folder, ignore: 'test/*' });
-        return Promise.all(g.map(file => new Promise<void>(resolve => {
-            const filePath = path.resolve(folder, file);
+    private async loadFile(filePath: string) {
+        return new Promise<void>(resolve => {
             readFile(filePath, 'utf-8', (err, out) => {
                 if (err) {
-                    console.log(`Couldn't open ${file}`);
+                    console.log(`Couldn't open ${filePath}`);
                 } else {
                     try {
                         const tree = yaml.load(out, { json: true });
-                        this.addType(new NodeType({ name: path.basename(file, '.yaml'), ...tree }, filePath));
+                        this.addType(new NodeType({ name: path.basename(filePath, '.yaml'), ...tree }, filePath));
                     } catch (e) {
                         const pos =
                             "mark" in e
@@ -522,7 +603,62 @@ export class TypeLoader {
 
                 resolve();
             });
-        })));
+        });
+    }
+
+    async addFolder(folder: string) {
+        this.folders.push(folder);
+        const g = glob.sync('**/*.yaml', { cwd: folder, ignore: 'test/*' });
+        return Promise.all(g.map(file => this.loadFile(path.resolve(folder, file))));
+    }
+
+    /**
+     * Reload the bindings in a file that changed, was created or was deleted.
+     *
+     * @returns Names of the reloaded types, along with the types that include them.
+     */
+    async reload(filePath: string): Promise<string[]> {
+        filePath = path.resolve(filePath);
+        const inFolder = this.folders.some(folder => {
+            const relative = path.relative(path.resolve(folder), filePath);
+            return !relative.startsWith('..') && !path.isAbsolute(relative) && !relative.match(/^test[/\\]/);
+        });
+
+        if (!inFolder) {
+            return [];
+        }
+
+        const removed = Object.values(this.types).flat().filter(type => type.filename && path.resolve(type.filename) === filePath);
+        removed.forEach(type => {
+            this.types[type.name] = this.types[type.name].filter(t => t !== type);
+            if (!this.types[type.name].length) {
+                delete this.types[type.name];
+            }
+        });
+
+        this.diags.delete(vscode.Uri.file(filePath));
+        invalidateBindingFile(filePath);
+        if (existsSync(filePath)) {
+            await this.loadFile(filePath);
+        }
+
+        const added = Object.values(this.types).flat().filter(type => type.filename && path.resolve(type.filename) === filePath);
+        return this.dependents([...removed, ...added]);
+    }
+
+    /*
+     * Names of the given types, along with the names of every type that includes them, directly or indirectly.
+     * Includes refer to the binding's file name, which isn't the type name for bindings with a compatible.
+     */
+    private dependents(types: NodeType[]): string[] {
+        const all = Object.values(this.types).flat();
+        const names = (type: NodeType) => type.filename && path.basename(type.filename, '.yaml') !== type.name ? [type.name, path.basename(type.filename, '.yaml')] : [type.name];
+        const result = types.flatMap(names).filter((name, i, list) => list.indexOf(name) === i);
+        for (let i = 0; i < result.length; i++) {
+            all.filter(type => !result.includes(type.name) && type.dependsOn(result[i])).forEach(type => result.push(...names(type).filter(name => !result.includes(name))));
+        }
+
+        return result;
     }
 
     get(name: string): NodeType[] {
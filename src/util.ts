@@ -4,6 +4,7 @@
  * SPDX-License-Identifier: MIT
  */
 import * as vscode from 'vscode';
+import { evaluate, ExpressionError } from './expression';
 
 export function countText(count: number, text: string, plural?: string): string {
 	if (!plural) {
@@ -32,40 +33,35 @@ export function capitalize(str: string): string {
 	});
 }
 
-export function evaluateExpr(expr: string, start: vscode.Position, diags: vscode.Diagnostic[]=[]) {
-    expr = expr.trim().replace(/([\d.]+|0x[\da-f]+)[ULf]+/gi, '$1');
-    let m: RegExpMatchArray;
-    let level = 0;
-    let text = '';
-    while ((m = expr.match(/(?:(?:<<|>>|&&|\|\||[!=<>]=|[|&~^<>!=+/*-]|\s*|0x[\da-fA-F]+|[\d.]+|'.')\s*)*([()]?)/)) && m[0].length) {
-        text += m[0].replace(/'(.)'/g, (_, char: string) => char.codePointAt(0).toString());
-        if (m[1] === '(') {
-            level++;
-        } else if (m[1] === ')') {
-            if (!level) {
-                return undefined;
-            }
-
-            level--;
+/**
+ * Evaluate a C integer constant expression, reporting errors at their position in the text.
+ *
+ * @param identifiersAsZero Evaluate unknown identifiers as 0, like the preprocessor does for undefined macros.
+ */
+export function evaluateExpr(expr: string, start: vscode.Position, diags: vscode.Diagnostic[]=[], identifiersAsZero=false): bigint | undefined {
+    const position = (offset: number) => {
+        const lines = expr.slice(0, offset).split('\n');
+        if (lines.length === 1) {
+            return start.translate(0, offset);
         }
 
-        expr = expr.slice(m.index + m[0].length);
-    }
-
-    if (!text || level || expr) {
-        diags.push(new vscode.Diagnostic(new vscode.Range(start.line, start.character + m.index, start.line, start.character + m.index), `Unterminated expression`));
-        return undefined;
-    }
+        return new vscode.Position(start.line + lines.length - 1, lines[lines.length - 1].length);
+    };
 
     try {
-        return eval(text);
+        return evaluate(expr, { identifiersAsZero });
     } catch (e) {
-        diags.push(new vscode.Diagnostic(new vscode.Range(start.line, start.character, start.line, start.character + text.length), `Unable to evaluate expression`));
-        return undefined;
+        if (e instanceof ExpressionError) {
+            diags.push(new vscode.Diagnostic(new vscode.Range(position(e.start), position(e.end)), e.message));
+            return undefined;
+        }
+
+        throw e;
     }
 }
 
-export function sizeString(size): string {
+export function sizeString(bytes: number | bigint): string {
+    const size = Number(bytes);
     const spec = [
         { size: 1024 * 1024 * 1024, name: 'GB' },
         { size: 1024 * 1024, name: 'MB' },
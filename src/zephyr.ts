@@ -7,25 +7,39 @@ import * as vscode from 'vscode';
 import * as path from 'path';
 import { env } from 'process';
 import { ExecOptions, exec } from 'child_process';
-import { existsSync, readFileSync } from 'fs';
+import { existsSync, readFileSync, readdirSync } from 'fs';
 import * as glob from 'glob';
 import * as yaml from 'js-yaml';
 
 export type BoardInfo = { identifier: string, name: string, type: string, arch: string, toolchain: string[], ram: number, flash: number, supported: string[] };
-export type Board = { name: string, path: string, arch?: string, info?: BoardInfo | {[name: string]: any} };
-const conf = vscode.workspace.getConfiguration();
-export let zephyrRoot: string;
+/**
+ * Zephyr board.
+ *
+ * Hardware model v2 boards are described by a board.yml file, and each combination of SoC, CPU cluster and variant
+ * is a separate board target, like nrf5340dk/nrf5340/cpuapp/ns. The qualifiers are the part after the board name.
+ */
+export type Board = { name: string, path: string, arch?: string, qualifiers?: string, info?: BoardInfo | {[name: string]: any} };
+/** Shield overlay in a boards/shields directory, with the metadata from its shield.yml file, if any */
+export type Shield = { name: string, overlay: string, fullName?: string, vendor?: string };
+/**
+ * Overlays that a snippet.yml file appends to the build. The board specific overlays apply to boards that match
+ * the pattern, which is either a board name or a regular expression.
+ */
+export type Snippet = { name: string, file: string, overlays: string[], boards: { pattern: string | RegExp, overlays: string[] }[] };
+/** DeviceTree configuration of a single image in a Zephyr build directory */
+export type Build = { dir: string, name: string, board: Board, overlays: string[] };
+
 let westExe: string;
 let westVersion: string;
-let boards: Board[];
-export let modules: string[];
+/** Zephyr installations of the workspace folders. Folders in the same west workspace share an installation. */
+export let installations = new Array<Installation>();
 
-function west(...args: string[]): Promise<string> {
+function west(cwd: string | undefined, ...args: string[]): Promise<string> {
 
 	const command = westExe + ' ' + args.join(' ');
 
 	const options: ExecOptions = {
-		cwd: zephyrRoot ?? vscode.workspace.workspaceFolders?.find(w => w.name.match(/zephyr/i))?.uri.fsPath ?? vscode.workspace.workspaceFolders?.[0]?.uri.fsPath,
+		cwd: cwd ?? vscode.workspace.workspaceFolders?.find(w => w.name.match(/zephyr/i))?.uri.fsPath ?? vscode.workspace.workspaceFolders?.[0]?.uri.fsPath,
 	};
 
 	return new Promise<string>((resolve, reject) => {
@@ -44,115 +58,706 @@ export function openConfig(entry: string) {
 }
 
 async function findWest() {
+	const conf = vscode.workspace.getConfiguration();
 	if (!(westExe = conf.get('devicetree.west') as string) &&
 		!(westExe = conf.get('kconfig.zephyr.west') as string)) {
 		westExe = 'west';
 	}
 
-	return west('-V').then(version => {
+	return west(undefined, '-V').then(version => {
 		westVersion = version.match(/v\d+\.\d+\.\d+/)?.[0];
 	}, (err: Error) => {
-		vscode.window.showErrorMessage(`Couldn't find west (${err.name})`, 'Configure west path...').then(() => {
-			openConfig('devicetree.west');
-		});
+		westVersion = undefined;
+		// We can still read the workspace without west:
+		if (!findWestTopdir(...(vscode.workspace.workspaceFolders?.map(workspace => workspace.uri.fsPath) ?? []))) {
+			vscode.window.showErrorMessage(`Couldn't find west (${err.name})`, 'Configure west path...').then(() => {
+				openConfig('devicetree.west');
+			});
+		}
 	});
 }
 
-async function findZephyrRoot() {
-	if (!(zephyrRoot = conf.get('devicetree.zephyr') as string) &&
-		!(zephyrRoot = conf.get('kconfig.zephyr.base') as string) &&
-		!(zephyrRoot = env['ZEPHYR_BASE'] as string)) {
-		return Promise.all([west('topdir'), west('config', 'zephyr.base')]).then(([topdir, zephyr]) => {
-			zephyrRoot = path.join(topdir.trim(), zephyr.trim());
-		}, err => {
-			vscode.window.showErrorMessage(`Couldn't find Zephyr root`, 'Configure...').then(() => {
-				openConfig('devicetree.zephyr');
-			});
-		});
+/* Find the west workspace by looking for its .west/config file in the parent directories. */
+function findWestTopdir(...dirs: string[]): string | undefined {
+	for (let dir of dirs.filter(dir => dir)) {
+		while (!existsSync(path.join(dir, '.west', 'config'))) {
+			if (path.dirname(dir) === dir) {
+				break;
+			}
+
+			dir = path.dirname(dir);
+		}
+
+		if (existsSync(path.join(dir, '.west', 'config'))) {
+			return dir;
+		}
 	}
 }
 
-export function findBoard(board: string): Board {
-	return boards.find(b => b.name === board);
+/* Read the local west configuration, with keys on the section.key format. */
+function readWestConfig(topdir: string): {[key: string]: string} {
+	const config = {};
+	let section = '';
+	readFileSync(path.join(topdir, '.west', 'config'), 'utf-8').split(/\r?\n/).forEach(line => {
+		const header = line.match(/^\s*\[\s*(.+?)\s*\]/);
+		const entry = line.match(/^\s*([^#;=\s][^=]*?)\s*=\s*(.*?)\s*$/);
+		if (header) {
+			section = header[1];
+		} else if (entry) {
+			config[`${section}.${entry[1]}`] = entry[2];
+		}
+	});
+
+	return config;
 }
 
-export async function isBoardFile(uri: vscode.Uri) {
-	if (path.extname(uri.fsPath) !== '.dts') {
-		return false;
+/* Find the Zephyr root of the workspace folder, from its configuration, the environment or its west workspace. */
+async function findZephyrRoot(folder?: vscode.WorkspaceFolder): Promise<string | undefined> {
+	const conf = vscode.workspace.getConfiguration(undefined, folder?.uri);
+	const configured = conf.get('devicetree.zephyr') as string || conf.get('kconfig.zephyr.base') as string || env['ZEPHYR_BASE'];
+	if (configured) {
+		return configured;
 	}
 
-	for (const root of boardRoots()) {
-		if (uri.fsPath.startsWith(path.normalize(root))) {
-			return true;
+	const dir = folder?.uri.fsPath;
+	const westRoot = () => Promise.all([west(dir, 'topdir'), west(dir, 'config', 'zephyr.base')]).then(([topdir, zephyr]) => path.join(topdir.trim(), zephyr.trim()));
+	const localRoot = () => {
+		const topdir = findWestTopdir(dir);
+		if (topdir) {
+			const config = readWestConfig(topdir);
+			return path.join(topdir, config['zephyr.base'] ?? config['manifest.path'] ?? 'zephyr');
 		}
+	};
+
+	return (westVersion ? westRoot() : Promise.reject()).then(root => root, () => localRoot());
+}
+
+/** Full name of the board target, including any qualifiers. */
+export function boardTarget(board: Board) {
+	return board.qualifiers ? `${board.name}/${board.qualifiers}` : board.name;
+}
+
+function readYaml(file: string): any {
+	try {
+		return yaml.load(readFileSync(file, 'utf-8'), { json: true });
+	} catch (e) {
+		console.log(`Failed reading ${file}: ${e}`);
 	}
+}
+
+/* Board targets of a hardware model v2 board.yml file. */
+function readBoardYaml(file: string, socs: {[name: string]: string[]}): Board[] {
+	const dir = path.dirname(file);
+	const content = readYaml(file);
+	const entries = content?.boards ?? [content?.board];
+	const variants = (qualifiers: string[], list: any[], cluster?: string): string[][] => list
+		?.filter(variant => !cluster || !variant.cpucluster || variant.cpucluster === cluster)
+		.flatMap(variant => [[...qualifiers, variant.name], ...variants([...qualifiers, variant.name], variant.variants)]) ?? [];
 
-	return false;
+	return entries.filter(board => board?.name).flatMap(board => (board.socs ?? []).flatMap(soc => {
+		const clusters = socs[soc.name]?.length ? socs[soc.name].map(cluster => [soc.name, cluster]) : [[soc.name]];
+		return clusters.flatMap(qualifiers => [qualifiers, ...variants(qualifiers, soc.variants, qualifiers[1])]);
+	}).map(qualifiers => <Board>{
+		name: board.name,
+		path: path.join(dir, `${board.name}_${qualifiers.join('_')}.dts`),
+		qualifiers: qualifiers.join('/'),
+	})).filter(board => existsSync(board.path));
 }
 
-export async function defaultBoard(): Promise<Board> {
-	const dtsBoard = conf.get('devicetree.defaultBoard') as string;
-	if (dtsBoard) {
-		const path = findBoard(dtsBoard);
-		if (path) {
-			console.log('Using default board');
-			return path;
+/* Shields in the shields directory of a board root. Each shield directory may contain several shields. */
+function readShields(boardsDir: string): Shield[] {
+	const dir = path.join(boardsDir, 'shields');
+	if (!existsSync(dir)) {
+		return [];
+	}
+
+	const metadata = glob.sync('*/shield.yml', { cwd: dir, absolute: true })
+		.map(file => readYaml(file))
+		.flatMap(content => content?.shields ?? [content?.shield])
+		.filter(shield => shield?.name);
+
+	return glob.sync('*/*.overlay', { cwd: dir, absolute: true }).map(file => {
+		const name = path.basename(file, '.overlay');
+		const info = metadata.find(shield => shield.name === name);
+		return <Shield>{ name, overlay: path.normalize(file), fullName: info?.full_name, vendor: info?.vendor };
+	});
+}
+
+/**
+ * Overlay files for adding the shield to the given board target, in build order.
+ *
+ * Like in the build system, the shield's overlay is followed by any board specific overlays in the shield's boards directory,
+ * from the least to the most specific qualifiers.
+ */
+export function shieldOverlays(shield: Shield, target: string): string[] {
+	const dir = path.dirname(shield.overlay);
+	const parts = target.replace(/@[^/]*/, '').split('/');
+	const names = parts.map((_, i) => parts.slice(0, i + 1).join('_'));
+	const boardOverlays = [path.join(dir, 'boards'), path.join(dir, 'boards', shield.name)]
+		.flatMap(boardsDir => names.map(name => path.join(boardsDir, name + '.overlay')))
+		.filter(file => existsSync(file));
+
+	return [shield.overlay, ...boardOverlays];
+}
+
+function readSnippet(file: string): Snippet | undefined {
+	const content = readYaml(file);
+	if (!content?.name) {
+		return;
+	}
+
+	const dir = path.dirname(file);
+	const overlays = (entry: any) => cmakeList(entry?.append?.EXTRA_DTC_OVERLAY_FILE).map(overlay => path.resolve(dir, overlay)).filter(overlay => existsSync(overlay));
+	return {
+		name: content.name,
+		file,
+		overlays: overlays(content),
+		boards: Object.entries(content.boards ?? {}).map(([board, entry]) => ({
+			pattern: board.match(/^\/(.*)\/$/) ? new RegExp(`^${board.slice(1, board.length - 1)}$`) : board,
+			overlays: overlays(entry),
+		})),
+	};
+}
+
+/*
+ * Read the paths of the projects in the west manifest, like west list does.
+ *
+ * Projects in a manifest take precedence over the projects it imports, and projects that haven't been cloned are left out.
+ */
+function readManifest(topdir: string): string[] {
+	const config = readWestConfig(topdir);
+	const manifestDir = path.join(topdir, config['manifest.path'] ?? 'zephyr');
+	const projects: {[name: string]: string} = {};
+	const visited = new Array<string>();
+
+	const manifestFiles = (dir: string, importValue: any): string[] => {
+		if (importValue === true) {
+			return [path.join(dir, 'west.yml')];
 		}
+
+		const file = path.join(dir, typeof importValue === 'string' ? importValue : importValue?.file ?? 'west.yml');
+		if (existsSync(file) && !file.match(/\.ya?ml$/)) {
+			return readdirSync(file).filter(entry => entry.match(/\.ya?ml$/)).sort().map(entry => path.join(file, entry));
+		}
+
+		return [file];
+	};
+
+	const toList = (value: any): string[] => value === undefined ? undefined : [].concat(value);
+
+	const readManifestFile = (file: string, prefix: string, filter: (name: string) => boolean) => {
+		if (visited.includes(file) || !existsSync(file)) {
+			return;
+		}
+
+		visited.push(file);
+		const manifest = readYaml(file)?.manifest;
+		const imports = new Array<{ dir: string, value: any }>();
+		(manifest?.projects ?? []).filter(project => project?.name && filter(project.name) && !(project.name in projects)).forEach(project => {
+			const dir = path.join(topdir, prefix, project.path ?? project.name);
+			projects[project.name] = dir;
+			if (project.import) {
+				imports.push({ dir, value: project.import });
+			}
+		});
+
+		imports.forEach(({ dir, value }) => {
+			const allow = toList(value['name-allowlist']);
+			const block = toList(value['name-blocklist']) ?? [];
+			manifestFiles(dir, value).forEach(imported => readManifestFile(imported, path.join(prefix, value['path-prefix'] ?? ''), name => filter(name) && (!allow || allow.includes(name)) && !block.includes(name)));
+		});
+	};
+
+	const mainFile = path.join(manifestDir, config['manifest.file'] ?? 'west.yml');
+	readManifestFile(mainFile, '', () => true);
+	const selfImport = readYaml(mainFile)?.manifest?.self?.import;
+	if (selfImport) {
+		manifestFiles(manifestDir, selfImport).forEach(file => readManifestFile(file, '', () => true));
+	}
+
+	return [manifestDir, ...Object.values(projects)].filter(dir => existsSync(dir)).map(dir => dir.replace(/\\/g, '/'));
+}
+
+function readCMakeCache(dir: string): {[name: string]: string} | undefined {
+	const file = path.join(dir, 'CMakeCache.txt');
+	if (!existsSync(file)) {
+		return;
 	}
 
-	const kconfigBoard = conf.get('kconfig.zephyr.board') as { board: string, arch: string, dir: string };
-	if (kconfigBoard?.dir && kconfigBoard.board) {
-		const board = <Board>{ name: kconfigBoard.board, path: path.join(kconfigBoard.dir, kconfigBoard.board + '.dts'), arch: kconfigBoard.arch };
-		if (existsSync(board.path)) {
-			console.log('Using Kconfig board');
-			return board;
+	const cache = {};
+	readFileSync(file, 'utf-8').split(/\r?\n/).forEach(line => {
+		const entry = line.match(/^([\w-]+):\w+=(.*)$/);
+		if (entry) {
+			cache[entry[1]] = entry[2].trim();
 		}
+	});
+
+	return cache;
+}
+
+/* Dependencies of the preprocessed DeviceTree, in the order cpp opened them. */
+function readDeps(file: string): string[] | undefined {
+	if (!existsSync(file)) {
+		return;
 	}
 
-	console.log('Using fallback board');
-	return findBoard('nrf52dk_nrf52832') ?? findBoard('nrf52_pca10040');
+	const words = readFileSync(file, 'utf-8').replace(/\\\r?\n/g, ' ').match(/(?:\\ |\S)+/g) ?? [];
+	const target = words.findIndex(word => word.endsWith(':'));
+	return words.slice(target + 1).map(word => path.normalize(word.replace(/\\ /g, ' ')));
 }
 
-function boardRoots(): string[] {
-	return modules.map(m => m + '/boards').filter(dir => existsSync(dir));
+function cmakeList(value?: string): string[] {
+	return value?.split(/[;\s]+/).filter(entry => entry) ?? [];
 }
 
-async function findBoards() {
-	boards = new Array<Board>();
-	return Promise.all(boardRoots().map(root => new Promise<void>(resolve => glob(`**/*.dts`, { cwd: root }, (err, matches) => {
-		if (!err) {
-			matches.forEach(m => boards.push({name: path.basename(m, '.dts'), path: `${root}/${m}`, arch: m.split(/[/\\]/)?.[0]}));
+/**
+ * Zephyr installation, with the modules in its west workspace and the boards, shields and snippets they provide.
+ */
+export class Installation {
+	root: string;
+	/** Workspace folders that use this installation */
+	folders: vscode.WorkspaceFolder[];
+	modules: string[];
+	/** Build settings from each module's zephyr/module.yml file */
+	private moduleSettings: {[module: string]: {[setting: string]: string}} = {};
+	private boards: Board[];
+	private shields: Shield[];
+	private snippets: Snippet[];
+	/** Zephyr version, from the VERSION file in the root */
+	version?: string;
+
+	constructor(root: string, folder?: vscode.WorkspaceFolder) {
+		this.root = root;
+		this.folders = folder ? [folder] : [];
+	}
+
+	/** Short name for telling the installations apart */
+	get name() {
+		return this.version ? `Zephyr ${this.version}` : vscode.workspace.asRelativePath(this.root);
+	}
+
+	private get config() {
+		return vscode.workspace.getConfiguration(undefined, this.folders[0]?.uri);
+	}
+
+	/**
+	 * Find a board by its target name, like nrf5340dk/nrf5340/cpuapp, or by the name of its DeviceTree file, like nrf5340dk_nrf5340_cpuapp.
+	 * As in the build system, the qualifiers may be left out for boards with a single target.
+	 */
+	findBoard(board: string): Board {
+		const exact = this.boards?.find(b => boardTarget(b) === board) ??
+			this.boards?.find(b => path.basename(b.path, '.dts') === board);
+		if (exact) {
+			return exact;
+		}
+
+		// The bare board name is only unambiguous if the board has a single target:
+		const targets = this.boards?.filter(b => b.name === board);
+		if (targets?.length === 1) {
+			return targets[0];
+		}
+	}
+
+	findBoardFile(file: string): Board | undefined {
+		return this.boards?.find(b => path.normalize(b.path) === path.normalize(file));
+	}
+
+	async isBoardFile(uri: vscode.Uri) {
+		if (path.extname(uri.fsPath) !== '.dts') {
+			return false;
+		}
+
+		for (const root of this.boardRoots()) {
+			if (uri.fsPath.startsWith(path.normalize(root))) {
+				return true;
+			}
+		}
+
+		return false;
+	}
+
+	async defaultBoard(): Promise<Board> {
+		const dtsBoard = this.config.get('devicetree.defaultBoard') as string;
+		if (dtsBoard) {
+			const path = this.findBoard(dtsBoard);
+			if (path) {
+				console.log('Using default board');
+				return path;
+			}
 		}
 
-		resolve();
-	}))));
+		const kconfigBoard = this.config.get('kconfig.zephyr.board') as { board: string, arch: string, dir: string };
+		if (kconfigBoard?.dir && kconfigBoard.board) {
+			const board = <Board>{ name: kconfigBoard.board, path: path.join(kconfigBoard.dir, kconfigBoard.board + '.dts'), arch: kconfigBoard.arch };
+			if (existsSync(board.path)) {
+				console.log('Using Kconfig board');
+				return board;
+			}
+		}
+
+		console.log('Using fallback board');
+		return this.findBoard('nrf52dk_nrf52832') ?? this.findBoard('nrf52_pca10040');
+	}
+
+	private boardRoots(): string[] {
+		return this.moduleRoots('board_root').map(root => root + '/boards').filter(dir => existsSync(dir));
+	}
+
+	/* CPU clusters of each SoC, from the soc.yml files in the SoC roots. */
+	private findSoCs(): {[name: string]: string[]} {
+		const socs = {};
+		const addSoCs = (entry: any) => {
+			if (Array.isArray(entry)) {
+				entry.forEach(addSoCs);
+			} else if (entry && typeof entry === 'object') {
+				entry.socs?.forEach?.(soc => socs[soc.name] = soc.cpuclusters?.map(cluster => cluster.name) ?? []);
+				Object.values(entry).forEach(addSoCs);
+			}
+		};
+
+		this.moduleRoots('soc_root').filter(m => existsSync(m + '/soc')).forEach(root => {
+			glob.sync('**/soc.yml', { cwd: root + '/soc', absolute: true }).forEach(file => addSoCs(readYaml(file)));
+		});
+
+		return socs;
+	}
+
+	private async findBoards() {
+		const boards = new Array<Board>();
+		const socs = this.findSoCs();
+		await Promise.all(this.boardRoots().map(root => new Promise<void>(resolve => glob(`**/{*.dts,board.yml}`, { cwd: root }, (err, matches) => {
+			if (!err) {
+				// Hardware model v2 boards have DeviceTree files for each board target:
+				const hwmv2 = matches.filter(m => path.basename(m) === 'board.yml');
+				hwmv2.forEach(m => boards.push(...readBoardYaml(`${root}/${m}`, socs)));
+
+				matches
+					.filter(m => path.extname(m) === '.dts' && !hwmv2.some(board => path.dirname(board) === path.dirname(m)))
+					.forEach(m => boards.push({name: path.basename(m, '.dts'), path: `${root}/${m}`, arch: m.split(/[/\\]/)?.[0]}));
+			}
+
+			resolve();
+		}))));
+
+		this.boards = boards;
+	}
+
+	/*
+	 * Hardware model v2 boards aren't sorted by architecture, so we have to look for the architecture
+	 * specific directory that contains the SoC files the board includes.
+	 */
+	private findArch(file: string, visited: string[] = []): string | undefined {
+		if (visited.includes(file) || !existsSync(file)) {
+			return;
+		}
+
+		visited.push(file);
+		const includes = (readFileSync(file, 'utf-8').match(/^\s*#\s*include\s*[<"][^>"]+[>"]/gm) ?? []).map(line => line.match(/[<"]([^>"]+)[>"]/)[1]);
+		for (const include of includes) {
+			for (const root of this.moduleRoots('dts_root')) {
+				const dts = path.join(root, 'dts');
+				const arch = existsSync(dts) && readdirSync(dts).find(arch => !['bindings', 'common', 'vendor'].includes(arch) && existsSync(path.join(dts, arch, include)));
+				if (arch) {
+					return arch;
+				}
+			}
+		}
+
+		// Try the board's own include files:
+		for (const include of includes) {
+			const arch = this.findArch(path.resolve(path.dirname(file), include), visited);
+			if (arch) {
+				return arch;
+			}
+		}
+	}
+
+	/** Include directories for the board's DeviceTree files. */
+	boardIncludes(board: Board): string[] {
+		if (!this.modules) {
+			return [];
+		}
+
+		if (!board.arch && board.qualifiers) {
+			board.arch = this.findArch(board.path);
+		}
+
+		if (board.arch) {
+			return this.moduleRoots('dts_root').map(root => root + '/dts/' + board.arch);
+		}
+
+		return [];
+	}
+
+	/** Include directories for all DeviceTree files, followed by the board specific ones. */
+	includes(board?: Board): string[] {
+		return [
+			...this.moduleRoots('dts_root').flatMap(m => [m + '/include', m + '/dts', m + '/dts/common']),
+			...(board ? this.boardIncludes(board) : []),
+		];
+	}
+
+	private findShields() {
+		this.shields = this.boardRoots().flatMap(readShields);
+	}
+
+	/** Find the shield that the overlay file belongs to. */
+	findShield(file: string): Shield | undefined {
+		file = path.normalize(file);
+		const inDir = (shield: Shield, ...dirs: string[]) => file.startsWith(path.join(path.dirname(shield.overlay), ...dirs) + path.sep);
+		return this.shields?.find(shield => shield.overlay === file) ??
+			this.shields?.find(shield => inDir(shield, 'boards', shield.name)) ??
+			this.shields?.find(shield => inDir(shield, 'boards'));
+	}
+
+	hasShields() {
+		return !!this.shields?.length;
+	}
+
+	async selectShields(board: Board, prompt='Add shields'): Promise<Shield[] | undefined> {
+		const items = this.shields.map(shield => <vscode.QuickPickItem>{
+			label: shield.name,
+			description: [shield.fullName, shield.vendor].filter(text => text).join(' • '),
+			detail: vscode.workspace.asRelativePath(shield.overlay),
+			shield,
+		});
+
+		return vscode.window.showQuickPick(items, { placeHolder: `${prompt} for ${boardTarget(board)}`, canPickMany: true, matchOnDescription: true }).then(picked => picked?.map(item => item['shield']));
+	}
+
+	private findSnippets() {
+		this.snippets = this.moduleRoots('snippet_root')
+			.filter(m => existsSync(m + '/snippets'))
+			.flatMap(root => glob.sync('**/snippet.yml', { cwd: root + '/snippets', absolute: true }))
+			.map(file => readSnippet(path.normalize(file)))
+			.filter(snippet => snippet);
+	}
+
+	/**
+	 * DeviceTree overlays the snippet appends to the build for the given board.
+	 *
+	 * Snippets with the same name in different modules are combined, like in the build system.
+	 */
+	snippetOverlays(name: string, board: Board): string[] {
+		const target = boardTarget(board);
+		return this.snippets?.filter(snippet => snippet.name === name).flatMap(snippet => [
+			...snippet.overlays,
+			...snippet.boards
+				.filter(entry => entry.pattern instanceof RegExp ? entry.pattern.test(target) : [target, board.name].includes(entry.pattern))
+				.flatMap(entry => entry.overlays),
+		]) ?? [];
+	}
+
+	async selectSnippet(board: Board, prompt='Add snippet'): Promise<string | undefined> {
+		const names = this.snippets?.map(snippet => snippet.name).filter((name, i, all) => all.indexOf(name) === i) ?? [];
+		const items = names
+			.filter(name => this.snippetOverlays(name, board).length)
+			.map(name => <vscode.QuickPickItem>{
+				label: name,
+				description: this.snippets.filter(snippet => snippet.name === name).map(snippet => vscode.workspace.asRelativePath(snippet.file)).join(', '),
+			});
+
+		if (!items.length) {
+			vscode.window.showInformationMessage(`No snippets add DeviceTree overlays for ${boardTarget(board)}.`);
+			return;
+		}
+
+		return vscode.window.showQuickPick(items, { placeHolder: `${prompt} for ${boardTarget(board)}` }).then(item => item?.label);
+	}
+
+	private readModuleSettings() {
+		this.moduleSettings = {};
+		this.modules.forEach(module => {
+			const file = ['module.yml', 'module.yaml'].map(name => path.join(module, 'zephyr', name)).find(file => existsSync(file));
+			const settings = file && readYaml(file)?.build?.settings;
+			if (settings) {
+				this.moduleSettings[module] = settings;
+			}
+		});
+	}
+
+	/**
+	 * Root directories of the given kind in all modules.
+	 *
+	 * The modules declare their roots in their module.yml files. Modules that don't are searched from their top directory.
+	 */
+	moduleRoots(setting: 'board_root' | 'dts_root' | 'soc_root' | 'snippet_root'): string[] {
+		return this.modules?.map(module => path.resolve(module, this.moduleSettings[module]?.[setting] ?? '.')) ?? [];
+	}
+
+	private readVersion() {
+		const file = path.join(this.root, 'VERSION');
+		const text = existsSync(file) ? readFileSync(file, 'utf-8') : '';
+		const field = (name: string) => text.match(new RegExp(`^${name}\\s*=\\s*(\\d+)`, 'm'))?.[1];
+		if (field('VERSION_MAJOR')) {
+			this.version = [field('VERSION_MAJOR'), field('VERSION_MINOR') ?? '0', field('PATCHLEVEL') ?? '0'].join('.');
+		}
+	}
+
+	async load() {
+		const localModules = () => {
+			const topdir = findWestTopdir(this.root, ...this.folders.map(folder => folder.uri.fsPath));
+			return topdir ? readManifest(topdir) : [this.root];
+		};
+
+		this.modules = await (westVersion ? west(this.root, 'list', '-f', '{posixpath}') : Promise.reject())
+			.then(out => out.split(/\r?\n/).map(line => line.trim()).filter(line => line), () => localModules());
+		this.readVersion();
+		this.readModuleSettings();
+		await this.findBoards();
+		this.findShields();
+		this.findSnippets();
+	}
+
+	async selectBoard(prompt='Set board'): Promise<Board> {
+		return vscode.window.showQuickPick(this.boards.map(board => <vscode.QuickPickItem>{ label: boardTarget(board), description: board.arch, board }), { placeHolder: prompt }).then(board => board?.['board']);
+	}
+
+	/* Fallback for builds that haven't generated a DeviceTree yet. */
+	private findBuildBoard(board: string, roots: string[]): string | undefined {
+		const name = board.replace(/@[^/]*/, '').replace(/\//g, '_');
+		for (const root of roots) {
+			const match = glob.sync(`boards/**/${name}.dts`, { cwd: root, absolute: true })[0];
+			if (match) {
+				return path.normalize(match);
+			}
+		}
+
+		return this.findBoard(name)?.path;
+	}
+
+	private readBuildImage(dir: string): Build | undefined {
+		const cache = readCMakeCache(dir);
+		if (!cache?.BOARD) {
+			return;
+		}
+
+		const appDir = cache.APPLICATION_SOURCE_DIR ?? dir;
+		const roots = [...cmakeList(cache.BOARD_ROOT).map(root => path.resolve(appDir, root)), ...this.moduleRoots('board_root')];
+		const listed = [...cmakeList(cache.DTC_OVERLAY_FILE), ...cmakeList(cache.EXTRA_DTC_OVERLAY_FILE)].map(file => path.resolve(appDir, file));
+
+		let boardFile: string;
+		let overlays: string[];
+		const deps = readDeps(path.join(dir, 'zephyr', 'zephyr.dts.d'));
+		if (deps) {
+			boardFile = deps.find(dep => path.extname(dep) === '.dts');
+			overlays = deps.filter(dep => path.extname(dep) === '.overlay' || listed.includes(dep));
+		} else {
+			boardFile = this.findBuildBoard(cache.BOARD, roots);
+			const available = roots.flatMap(root => readShields(path.join(root, 'boards')));
+			const shieldFiles = cmakeList(cache.SHIELD).flatMap(name => {
+				const shield = available.find(shield => shield.name === name);
+				return shield ? shieldOverlays(shield, cache.BOARD) : [];
+			});
+			overlays = [...shieldFiles, ...listed];
+		}
+
+		if (!boardFile) {
+			return;
+		}
+
+		const arch = existsSync(path.join(dir, 'zephyr', '.config')) && readFileSync(path.join(dir, 'zephyr', '.config'), 'utf-8').match(/^CONFIG_ARCH="(\w+)"/m)?.[1];
+		const [name, ...qualifiers] = cache.BOARD.split('/');
+		return {
+			dir,
+			name: vscode.workspace.asRelativePath(dir),
+			board: { name, path: boardFile, qualifiers: qualifiers.join('/') || undefined, arch: arch || this.findBoardFile(boardFile)?.arch },
+			overlays,
+		};
+	}
+
+	/**
+	 * Read the DeviceTree configuration of a build directory.
+	 *
+	 * Sysbuild directories have one image in each subdirectory.
+	 */
+	readBuild(dir: string): Build[] {
+		if (!existsSync(path.join(dir, '_sysbuild'))) {
+			return [this.readBuildImage(dir)].filter(image => image);
+		}
+
+		return glob.sync('*/CMakeCache.txt', { cwd: dir, absolute: true })
+			.map(file => this.readBuildImage(path.dirname(path.normalize(file))))
+			.filter(image => image);
+	}
 }
 
-async function loadModules() {
-	modules = await west('list', '-f', '{posixpath}').then(out => out.split(/\r?\n/).map(line => line.trim()), _ => []);
-	await findBoards();
+/**
+ * Installation that the file belongs to.
+ *
+ * Files in a workspace folder use the folder's installation. Other files use the installation they're part of,
+ * or the first installation.
+ */
+export function installation(uri?: vscode.Uri): Installation | undefined {
+	const folder = uri && vscode.workspace.getWorkspaceFolder(uri);
+	const file = uri && path.normalize(uri.fsPath);
+	return installations.find(i => folder && i.folders.some(f => f.uri.toString() === folder.uri.toString())) ??
+		installations.find(i => file && i.modules?.some(m => file.startsWith(path.normalize(m) + path.sep))) ??
+		installations[0];
 }
 
-export async function selectBoard(prompt='Set board'): Promise<Board> {
-	return vscode.window.showQuickPick(boards.map(board => <vscode.QuickPickItem>{ label: board.name, description: board.arch, board }), { placeHolder: prompt }).then(board => board['board']);
+/*
+ * Load the installation of each workspace folder, sharing installations between folders with the same Zephyr root.
+ *
+ * Installations that are still in use are kept, so the bindings and contexts that belong to them stay valid.
+ */
+async function loadInstallations() {
+	const folders = vscode.workspace.workspaceFolders?.length ? vscode.workspace.workspaceFolders : [undefined];
+	const roots = await Promise.all(folders.map(folder => findZephyrRoot(folder)));
+	const loaded = new Array<Installation>();
+	folders.forEach((folder, i) => {
+		if (!roots[i]) {
+			return;
+		}
+
+		const sameRoot = (installation: Installation) => path.normalize(installation.root) === path.normalize(roots[i]);
+		const existing = loaded.find(sameRoot);
+		if (existing) {
+			existing.folders.push(folder);
+			return;
+		}
+
+		const previous = installations.find(sameRoot);
+		if (previous) {
+			previous.folders = folder ? [folder] : [];
+			loaded.push(previous);
+		} else {
+			loaded.push(new Installation(roots[i], folder));
+		}
+	});
+
+	await Promise.all(loaded.map(installation => installation.load()));
+	installations = loaded;
+	if (!installations.length) {
+		vscode.window.showErrorMessage(`Couldn't find Zephyr root`, 'Configure...').then(() => {
+			openConfig('devicetree.zephyr');
+		});
+	}
 }
 
 export async function activate(ctx: vscode.ExtensionContext) {
 	await findWest();
-	await findZephyrRoot();
-	if (zephyrRoot) {
-		await loadModules();
-		return;
-	}
+	await loadInstallations();
 
 	return new Promise<void>(resolve => {
+		ctx.subscriptions.push(vscode.workspace.onDidChangeWorkspaceFolders(async () => {
+			await loadInstallations();
+			if (installations.length) {
+				resolve();
+			}
+		}));
+
+		if (installations.length) {
+			resolve();
+			return;
+		}
+
 		ctx.subscriptions.push(vscode.workspace.onDidChangeConfiguration(async e => {
 			if (e.affectsConfiguration('kconfig.zephyr.base') || e.affectsConfiguration('kconfig.zephyr.west') ||
 				e.affectsConfiguration('devicetree.zephyr') || e.affectsConfiguration('devicetree.west')) {
 				await findWest();
-				await findZephyrRoot();
-				if (zephyrRoot) {
-					await loadModules();
+				await loadInstallations();
+				if (installations.length) {
 					resolve();
 				}
 			}
@@ -161,7 +766,8 @@ export async function activate(ctx: vscode.ExtensionContext) {
 }
 
 export function resolveBoardInfo(board: Board) {
-	const file = path.join(path.dirname(board.path), board.name + '.yaml');
+	// The board's twister file has the same name as its DeviceTree file:
+	const file = path.join(path.dirname(board.path), path.basename(board.path, '.dts') + '.yaml');
 	if (!existsSync(file)) {
 		return;
 	}